@@ -3,30 +3,64 @@
 import React, { useState, useEffect, useRef, useCallback, ReactNode } from 'react';
 import { onAuthStateChanged, signOut, createUserWithEmailAndPassword, signInWithEmailAndPassword, AuthError } from 'firebase/auth';
 import { auth } from './services/firebase';
-import { fetchConversations, createConversation, updateConversation as saveConversation } from './services/firestore';
-import type { Message, Model, ViewId, AspectRatio, User, Conversation, ChatTool } from './types';
+import { fetchPersonas, savePersona, deletePersona, fetchVideoJobs, saveVideoJob, deleteVideoJob, ConversationFieldsUpdate } from './services/firestore';
+import { createFirestoreAdapter, createLocalFirstStorage, LocalFirstStorage, SyncState } from './services/storage';
+import { GUEST_OWNER_ID } from './services/indexedDb';
+import { externalizeMedia, resolveMediaUrl, setAssetStoreUser } from './services/assets';
+import { exportConversations, exportFileName, parseConversationsJson, EXPORT_FILE_TYPES, ExportFormat } from './services/conversationFiles';
+import type { Message, Model, ViewId, AspectRatio, User, Conversation, ChatTool, Persona, UsageRecord, ContextSummary, ToolCall, ImageGenSettings, ImageEditStep, VideoJob, CodeFile, PreviewCapabilities, Attachment } from './types';
 import { ModelId, Tool } from './types';
 import {
   BotIcon, UserIcon, SparklesIcon, SendIcon, ImageIcon, VideoIcon, CodeIcon, MicIcon,
   PlusIcon, MessageSquareIcon, EditIcon, SunIcon, MoonIcon, CheckIcon, CopyIcon,
-  GlobeIcon, MapPinIcon, LogOutIcon, SettingsIcon, XIcon, PaperclipIcon, Volume2Icon, StopCircleIcon
+  GlobeIcon, MapPinIcon, LogOutIcon, SettingsIcon, XIcon, PaperclipIcon, Volume2Icon, StopCircleIcon, AudioLinesIcon, RefreshIcon,
+  PinIcon, ArchiveIcon, TrashIcon, SearchIcon, ChevronLeftIcon, ChevronRightIcon, DownloadIcon, UploadIcon, BarChartIcon
 } from './components/Icons';
 import { Button, GlassCard, Select, Spinner, Textarea, Input, Modal, Popover, ToggleSwitch } from './components/UI';
+import { LiveConversation } from './components/LiveConversation';
+import { CodePreview } from './components/CodePreview';
+import { Markdown } from './components/Markdown';
+import { MediaAsset } from './components/MediaAsset';
+import { PersonaPicker } from './components/PersonaPicker';
+import { UsageDashboard } from './components/UsageDashboard';
+import { ToolSteps } from './components/ToolSteps';
+import { ImageGenPanel, DEFAULT_IMAGE_GEN_SETTINGS } from './components/ImageGenPanel';
+import { ImageGrid } from './components/ImageGrid';
+import { ImageEditor } from './components/ImageEditor';
+import { VideoJobsPanel } from './components/VideoJobsPanel';
+import { Transcript } from './components/Transcript';
+import { SpeechPlayer } from './components/SpeechPlayer';
+import { AttachmentChip, MessageAttachments } from './components/AttachmentChips';
 import {
-  generateChatResponseStream, generateImage, editImage, generateVideo, checkVideoStatus,
-  fetchVideo, generateCode, connectLive, transcribeAudio, generateSpeech
+  editImage, upscaleImage, generateVideo, waitForVideo, fetchVideo, generateCode, connectLive, generateConversationTitle
 } from './services/gemini';
-import { fileToDataUrl, decode, decodeAudioData } from './utils';
+import { getProvider, ModelProvider } from './services/providers';
+import { findLatestCodeFiles, getCodeFiles } from './services/canvas';
+import { createToolRunner } from './services/tools';
+import { transcriptToText } from './services/transcripts';
+import { resolveVoice } from './services/speech';
+import { ATTACHMENT_ACCEPT, MAX_ATTACHMENTS, MAX_TOTAL_ATTACHMENT_SIZE, createAttachment, formatFileSize, validateAttachment } from './services/attachments';
+import { DEFAULT_PRICE_TABLE, PriceTable, summarizeUsage, totalTokens, formatCost } from './services/usage';
+import { DEFAULT_CONTEXT_BUDGET, CONTEXT_BUDGET_OPTIONS, prepareContext, withContextSummary, findSummaryEnd, estimateHistoryTokens, estimateTextTokens } from './services/context';
+import {
+  fileToDataUrl, searchConversations, ConversationSearchResult,
+  forkAt, switchBranch, urlToFile, downloadFile, getMediaDuration
+} from './utils';
 import { GroundingChunk } from '@google/genai';
 
 // --- CONSTANTS ---
 const MODELS: Model[] = [
-  { id: ModelId.GEMINI_FLASH, name: 'Ripo S1', description: 'Fast and efficient for most tasks.', speed: 'Fast' },
-  { id: ModelId.GEMINI_PRO, name: 'Ripo S2', description: 'Advanced reasoning for complex queries.', speed: 'Medium' },
+  { id: ModelId.GEMINI_FLASH, name: 'Ripo S1', description: 'Fast and efficient for most tasks.', speed: 'Fast', provider: 'gemini' },
+  { id: ModelId.GEMINI_PRO, name: 'Ripo S2', description: 'Advanced reasoning for complex queries.', speed: 'Medium', provider: 'gemini' },
+  { id: ModelId.OPENAI_COMPATIBLE, name: 'Local', description: 'Any OpenAI-compatible server, e.g. Ollama.', speed: 'Medium', provider: 'openai-compatible' },
 ];
 
+// Chat, image generation, transcription and speech go through the selected model's provider.
+const getModelProvider = (modelId: ModelId): ModelProvider =>
+  getProvider(MODELS.find(model => model.id === modelId)?.provider);
+
 const CHAT_TOOLS: Tool[] = [
-    { id: 'chat', name: 'Chat', icon: <MessageSquareIcon className="h-5 w-5" />, placeholder: "Ask me anything, or upload an image to discuss..." },
+    { id: 'chat', name: 'Chat', icon: <MessageSquareIcon className="h-5 w-5" />, placeholder: "Ask me anything, or attach images and documents to discuss..." },
     { id: 'image-gen', name: 'Image Gen', icon: <ImageIcon className="h-5 w-5" />, placeholder: "Describe the image you want to create..." },
     { id: 'image-edit', name: 'Image Edit', icon: <EditIcon className="h-5 w-5" />, placeholder: "Upload an image and describe your edit..." },
     { id: 'video-gen', name: 'Video Gen', icon: <VideoIcon className="h-5 w-5" />, placeholder: "Describe a video, or upload an image to animate..." },
@@ -35,12 +69,37 @@ const CHAT_TOOLS: Tool[] = [
     { id: 'canvas', name: 'Canvas', icon: <CodeIcon className="h-5 w-5" />, placeholder: "Describe the web app you want to build..." },
 ];
 
+const DEFAULT_CONVERSATION_TITLE = "New Chat";
+const STREAMING_PLACEHOLDER = '...';
+const TRASH_UNDO_WINDOW_MS = 8000;
+const GUEST_USER: User = { uid: GUEST_OWNER_ID, name: 'Guest', email: 'Saved on this device only' };
+
 const GREETING_MESSAGE: Message = {
     id: 'initial-greeting',
     role: 'model',
     text: "Hello! I'm RipoAI. Your advanced AI assistant. What can I help you with today?",
 };
 
+// True once the first user message has a finished, successful model reply.
+const hasCompletedFirstExchange = (conversation: Conversation): boolean => {
+    const firstUserIndex = conversation.messages.findIndex(m => m.role === 'user');
+    if (firstUserIndex === -1) return false;
+    return conversation.messages.slice(firstUserIndex + 1).some(m =>
+        m.role === 'model' && !m.error && m.text !== STREAMING_PLACEHOLDER &&
+        !!(m.text || m.generatedImage || m.generatedVideo || m.generatedCode || m.codeFiles)
+    );
+};
+
+// Works out which tool produced a reply for messages saved before `Message.tool` existed.
+const inferToolForReply = (userMessage: Message, reply: Message): ChatTool => {
+    if (reply.generatedCode || reply.codeFiles) return 'canvas';
+    if (reply.generatedImage) return userMessage.image ? 'image-edit' : 'image-gen';
+    if (reply.generatedVideo) return 'video-gen';
+    if (userMessage.audioSrc) return 'audio-transcription';
+    if (userMessage.video) return 'video-analysis';
+    return 'chat';
+};
+
 // --- HOOKS ---
 function useLocalStorage<T>(key: string, initialValue: T): [T, React.Dispatch<React.SetStateAction<T>>] {
     const [storedValue, setStoredValue] = useState<T>(() => {
@@ -71,11 +130,33 @@ export default function App() {
     const [theme, setTheme] = useLocalStorage<'light' | 'dark'>('theme', 'dark');
     const [user, setUser] = useState<User | null>(null);
     const [authLoading, setAuthLoading] = useState(true);
+    const [guestMode, setGuestMode] = useLocalStorage('guestMode', false);
+    const storageRef = useRef<LocalFirstStorage | null>(null);
+    const saveChainsRef = useRef<Map<string, Promise<void>>>(new Map());
+    const [syncState, setSyncState] = useState<SyncState | null>(null);
     const [conversations, setConversations] = useState<Conversation[]>([]);
     const [activeConvId, setActiveConvId] = useLocalStorage<string | null>('activeConversationId', null);
+    const [view, setView] = useState<ViewId>('chat');
     const [useSearch, setUseSearch] = useState(false);
+    const [useTools, setUseTools] = useLocalStorage('useTools', true);
     const [useThinkingMode, setUseThinkingMode] = useState(false);
     const [appError, setAppError] = useState<string | null>(null);
+    const [titleGeneratingId, setTitleGeneratingId] = useState<string | null>(null);
+    const titleRequestedRef = useRef<Set<string>>(new Set());
+    const [pendingDeletion, setPendingDeletion] = useState<Conversation | null>(null);
+    const pendingDeletionRef = useRef<Conversation | null>(null);
+    const deletionTimerRef = useRef<number | null>(null);
+    const [messageFocus, setMessageFocus] = useState<{ messageId: string } | null>(null);
+    const [isTransferring, setIsTransferring] = useState(false);
+    const [personas, setPersonas] = useState<Persona[]>([]);
+    const [guestPersonas, setGuestPersonas] = useLocalStorage<Persona[]>('guestPersonas', []);
+    const [isPersonaPickerOpen, setIsPersonaPickerOpen] = useState(false);
+    const [priceTable, setPriceTable] = useLocalStorage<PriceTable>('priceTable', DEFAULT_PRICE_TABLE);
+    const [contextBudget, setContextBudget] = useLocalStorage('contextBudget', DEFAULT_CONTEXT_BUDGET);
+    const [speechVoices, setSpeechVoices] = useLocalStorage<Record<string, string>>('speechVoices', {}); // keyed by user id, or GUEST_OWNER_ID
+    const [videoJobs, setVideoJobs] = useState<VideoJob[]>([]);
+    const [guestVideoJobs, setGuestVideoJobs] = useLocalStorage<VideoJob[]>('guestVideoJobs', []);
+    const videoPollersRef = useRef<Map<string, AbortController>>(new Map());
 
     useEffect(() => {
         const root = window.document.documentElement;
@@ -84,57 +165,127 @@ export default function App() {
     }, [theme]);
     
     useEffect(() => {
-        const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
+        const unsubscribe = onAuthStateChanged(auth, (firebaseUser) => {
             if (firebaseUser) {
-                const userData = {
+                setUser({
                     uid: firebaseUser.uid,
                     name: firebaseUser.displayName || firebaseUser.email,
                     email: firebaseUser.email,
                     photoURL: firebaseUser.photoURL,
-                };
-                setUser(userData);
-                
-                try {
-                  const userConversations = await fetchConversations(userData.uid);
-                  if (userConversations.length > 0) {
-                      setConversations(userConversations);
-                      if (!userConversations.some(c => c.id === activeConvId)) {
-                          setActiveConvId(userConversations[0].id);
-                      }
-                  } else {
-                      // Create first conversation for new user
-                      await handleNewConversation(userData.uid);
-                  }
-                } catch(error: any) {
-                    console.error("Critical App Error:", error);
-                    setAppError(error.message);
-                }
-
+                });
+                setGuestMode(false);
             } else {
                 setUser(null);
-                setConversations([]);
-                setActiveConvId(null);
             }
             setAuthLoading(false);
         });
         return () => unsubscribe();
     }, []);
 
+    const sessionUser = user || (guestMode ? GUEST_USER : null);
+
+    // Conversations live in IndexedDB for signed-in users and guests alike; signed-in users
+    // also get them synced to Firestore.
+    useEffect(() => {
+        if (authLoading) return;
+        if (!sessionUser) {
+            setConversations([]);
+            setActiveConvId(null);
+            return;
+        }
+        const storage = createLocalFirstStorage(sessionUser.uid, user ? createFirestoreAdapter(user.uid) : null);
+        storageRef.current = storage;
+        setAssetStoreUser(user ? user.uid : null);
+        const unsubscribe = storage.subscribe(setSyncState);
+        let cancelled = false;
+
+        const loadConversations = async () => {
+            try {
+                await storage.adoptGuestConversations();
+                const fetchedConversations = await storage.fetchConversations();
+                if (cancelled) return;
+                // Anything still in the trash outlived its undo window when the page was closed.
+                fetchedConversations.filter(c => c.deletedAt).forEach(c => {
+                    storage.deleteConversation(c.id).catch(error => console.error("Failed to purge deleted conversation:", error));
+                });
+                const userConversations = fetchedConversations.filter(c => !c.deletedAt);
+                if (userConversations.length > 0) {
+                    setConversations(userConversations);
+                    if (!userConversations.some(c => c.id === activeConvId)) {
+                        setActiveConvId((userConversations.find(c => !c.archived) || userConversations[0]).id);
+                    }
+                } else {
+                    // Create first conversation for new user
+                    setConversations([]);
+                    await handleNewConversation();
+                }
+            } catch(error: any) {
+                console.error("Critical App Error:", error);
+                setAppError(error.message);
+            }
+        };
+        loadConversations();
+
+        // Signed-in users keep their personas in Firestore; guests keep them in this browser.
+        if (user) {
+            fetchPersonas(user.uid)
+                .then(fetched => { if (!cancelled) setPersonas(fetched); })
+                .catch(error => console.error("Failed to load personas:", error));
+        } else {
+            setPersonas(guestPersonas);
+        }
+
+        // Video jobs are stored the same way, and the running ones are polled again (see runVideoJob).
+        if (user) {
+            fetchVideoJobs(user.uid)
+                .then(fetched => { if (!cancelled) setVideoJobs(fetched.filter(job => job.status === 'running')); })
+                .catch(error => console.error("Failed to load video jobs:", error));
+        } else {
+            setVideoJobs(guestVideoJobs.filter(job => job.status === 'running'));
+        }
+
+        return () => {
+            cancelled = true;
+            videoPollersRef.current.forEach(controller => controller.abort());
+            videoPollersRef.current.clear();
+            setVideoJobs([]);
+            unsubscribe();
+            storage.dispose();
+            storageRef.current = null;
+            setSyncState(null);
+        };
+    }, [authLoading, sessionUser?.uid]);
+
     const handleLogout = () => {
-        signOut(auth);
+        if (user) {
+            signOut(auth);
+        } else {
+            setGuestMode(false);
+        }
     };
 
-    const handleNewConversation = async (uid?: string) => {
-        const userId = uid || user?.uid;
-        if (!userId) return;
+    const handleNewConversation = async (persona?: Persona) => {
+        const storage = storageRef.current;
+        if (!storage) return;
 
         try {
-          const newConvData: Omit<Conversation, 'id'> = {
-              title: "New Chat",
+          const newConvData: Omit<Conversation, 'id'> = persona ? {
+              title: DEFAULT_CONVERSATION_TITLE,
+              messages: [{ ...GREETING_MESSAGE, text: `Hello! I'm ${persona.name}. What can I help you with today?` }],
+              model: persona.model,
+              systemInstruction: persona.instructions || undefined,
+              persona: { id: persona.id, name: persona.name, avatar: persona.avatar },
+              defaultTool: persona.defaultTool,
+          } : {
+              title: DEFAULT_CONVERSATION_TITLE,
               messages: [GREETING_MESSAGE],
               model: ModelId.GEMINI_FLASH,
           };
-          const newConv = await createConversation(userId, newConvData);
+          if (persona) {
+              setUseSearch(persona.useSearch);
+              setUseThinkingMode(persona.useThinkingMode);
+          }
+          const newConv = await storage.createConversation(newConvData);
           setConversations(prev => [newConv, ...prev]);
           setActiveConvId(newConv.id);
         } catch(error: any) {
@@ -143,17 +294,29 @@ export default function App() {
         }
     };
     
+    // Moves inline media into the asset store, then saves. Saves of one conversation run one after
+    // another so a slow media upload can't let an older version overwrite a newer one.
+    const persistConversation = (conv: Conversation) => {
+        const previous = saveChainsRef.current.get(conv.id) || Promise.resolve();
+        const next = previous
+            .then(async () => {
+                const storage = storageRef.current;
+                if (!storage) return;
+                await storage.updateConversation({ ...conv, messages: await externalizeMedia(conv.messages) });
+            })
+            .catch(error => {
+                console.error("Failed to save conversation:", error);
+                // Non-critical error, log it but don't disrupt UI
+            });
+        saveChainsRef.current.set(conv.id, next);
+    };
+
     const updateConversation = (convId: string, updatedMessages: Message[], newModel?: ModelId) => {
         setConversations(prev => {
             const newConversations = prev.map(c => {
                 if (c.id === convId) {
                     const updatedConv = { ...c, messages: updatedMessages, model: newModel || c.model };
-                    if (user) {
-                        saveConversation(user.uid, updatedConv).catch(error => {
-                            console.error("Failed to save conversation:", error);
-                            // Non-critical error, log it but don't disrupt UI
-                        });
-                    }
+                    persistConversation(updatedConv);
                     return updatedConv;
                 }
                 return c;
@@ -162,7 +325,290 @@ export default function App() {
         });
     };
 
-    const activeConversation = conversations.find(c => c.id === activeConvId) || null;
+    const patchConversation = (convId: string, patch: Partial<Omit<Conversation, 'id'>>) => {
+        setConversations(prev => prev.map(c => {
+            if (c.id !== convId) return c;
+            const updatedConv = { ...c, ...patch };
+            persistConversation(updatedConv);
+            return updatedConv;
+        }));
+    };
+
+    const applyConversationFields = (convId: string, fields: ConversationFieldsUpdate) => {
+        const { deletedAt, ...rest } = fields;
+        setConversations(prev => prev.map(c => {
+            if (c.id !== convId) return c;
+            const updatedConv = { ...c, ...rest };
+            if (deletedAt !== undefined) updatedConv.deletedAt = deletedAt || undefined;
+            return updatedConv;
+        }));
+        storageRef.current?.updateConversationFields(convId, fields).catch(error => {
+            console.error("Failed to update conversation:", error);
+        });
+    };
+
+    // Moves the selection off a conversation that is being archived or deleted.
+    const selectFallbackConversation = (removedId: string) => {
+        if (activeConvId !== removedId) return;
+        const fallback = conversations.find(c => c.id !== removedId && !c.deletedAt && !c.archived);
+        if (fallback) {
+            setActiveConvId(fallback.id);
+        } else {
+            handleNewConversation();
+        }
+    };
+
+    const handleRenameConversation = (convId: string, title: string) => {
+        const trimmed = title.trim();
+        if (!trimmed) return;
+        titleRequestedRef.current.add(convId); // Don't overwrite a manual name with a generated one.
+        applyConversationFields(convId, { title: trimmed });
+    };
+
+    const handleTogglePin = (conv: Conversation) => {
+        applyConversationFields(conv.id, { pinned: !conv.pinned });
+    };
+
+    const handleToggleArchive = (conv: Conversation) => {
+        applyConversationFields(conv.id, { archived: !conv.archived, pinned: false });
+        if (!conv.archived) selectFallbackConversation(conv.id);
+    };
+
+    const finalizePendingDeletion = () => {
+        if (deletionTimerRef.current !== null) {
+            clearTimeout(deletionTimerRef.current);
+            deletionTimerRef.current = null;
+        }
+        const current = pendingDeletionRef.current;
+        pendingDeletionRef.current = null;
+        setPendingDeletion(null);
+        if (current && storageRef.current) {
+            storageRef.current.deleteConversation(current.id).catch(error => {
+                console.error("Failed to delete conversation:", error);
+            });
+            setConversations(prev => prev.filter(c => c.id !== current.id));
+        }
+    };
+
+    const handleRetryFailedSync = () => {
+        storageRef.current?.retryFailed().catch(error => console.error("Failed to retry sync:", error));
+    };
+
+    const handleDiscardFailedSync = () => {
+        if (!window.confirm("Stop trying to sync these changes? They stay on this device until Firestore's copy replaces them.")) return;
+        storageRef.current?.discardFailed().catch(error => console.error("Failed to discard changes:", error));
+    };
+
+    const handleDeleteConversation = (conv: Conversation) => {
+        finalizePendingDeletion();
+        applyConversationFields(conv.id, { deletedAt: new Date() });
+        selectFallbackConversation(conv.id);
+        pendingDeletionRef.current = conv;
+        setPendingDeletion(conv);
+        deletionTimerRef.current = window.setTimeout(finalizePendingDeletion, TRASH_UNDO_WINDOW_MS);
+    };
+
+    const handleUndoDelete = () => {
+        if (!pendingDeletion) return;
+        if (deletionTimerRef.current !== null) {
+            clearTimeout(deletionTimerRef.current);
+            deletionTimerRef.current = null;
+        }
+        applyConversationFields(pendingDeletion.id, { deletedAt: null });
+        pendingDeletionRef.current = null;
+        setPendingDeletion(null);
+    };
+
+    const updateVideoJobs = (update: (current: VideoJob[]) => VideoJob[]) => {
+        setVideoJobs(update);
+        if (!user) setGuestVideoJobs(current => update(current).filter(job => job.status === 'running'));
+    };
+
+    // Puts `reply` in place of a video job's "Generating video..." message, or after the
+    // conversation's last message if that one is gone.
+    const replaceVideoJobMessage = (job: VideoJob, reply: Message) => {
+        setConversations(prev => prev.map(c => {
+            if (c.id !== job.conversationId) return c;
+            const messages = c.messages.some(m => m.id === job.messageId)
+                ? c.messages.map(m => m.id === job.messageId ? reply : m)
+                : [...c.messages, reply];
+            const updatedConv = { ...c, messages };
+            persistConversation(updatedConv);
+            return updatedConv;
+        }));
+    };
+
+    const notifyVideoJob = (job: VideoJob, succeeded: boolean) => {
+        if (!('Notification' in window) || Notification.permission !== 'granted') return;
+        const notification = new Notification(succeeded ? 'Your video is ready' : 'Video generation failed', { body: job.prompt });
+        notification.onclick = () => {
+            window.focus();
+            setActiveConvId(job.conversationId);
+            setView('chat');
+            notification.close();
+        };
+    };
+
+    // Polls one job until Veo finishes it, then swaps the result into its conversation. Jobs keep
+    // running across conversation switches, and the stored record lets them resume after a reload.
+    const runVideoJob = async (job: VideoJob) => {
+        const controller = new AbortController();
+        videoPollersRef.current.set(job.id, controller);
+        let finished: VideoJob;
+        let reply: Message;
+        try {
+            const videoUrl = await fetchVideo(await waitForVideo(job.operationName, controller.signal), controller.signal);
+            // Veo bills per second of output; its clips are 8 seconds unless the file says otherwise.
+            const videoSeconds = await getMediaDuration(videoUrl, 8);
+            reply = { id: job.messageId, role: 'model', text: 'Your video has been generated!', generatedVideo: videoUrl, usage: [{ model: ModelId.VEO, videoSeconds }] };
+            finished = { ...job, status: 'done' };
+        } catch (error: any) {
+            if (controller.signal.aborted) return;
+            console.error("Video generation failed:", error);
+            reply = { id: job.messageId, role: 'model', text: '', error: `Video generation failed: ${error.message}` };
+            finished = { ...job, status: 'failed', error: error.message };
+        } finally {
+            videoPollersRef.current.delete(job.id);
+        }
+        replaceVideoJobMessage(job, reply);
+        updateVideoJobs(prev => prev.map(j => j.id === job.id ? finished : j));
+        if (user) deleteVideoJob(user.uid, job.id).catch(error => console.error("Failed to delete video job:", error));
+        notifyVideoJob(job, finished.status === 'done');
+    };
+
+    useEffect(() => {
+        videoJobs
+            .filter(job => job.status === 'running' && !videoPollersRef.current.has(job.id))
+            .forEach(runVideoJob);
+    }, [videoJobs]);
+
+    const handleStartVideoJob = (fields: Pick<VideoJob, 'conversationId' | 'messageId' | 'prompt' | 'operationName'>) => {
+        const job: VideoJob = { ...fields, id: crypto.randomUUID(), createdAt: Date.now(), status: 'running' };
+        updateVideoJobs(prev => [...prev, job]);
+        if (user) saveVideoJob(user.uid, job).catch(error => console.error("Failed to save video job:", error));
+        // Asked here, while the user is interacting, since browsers ignore requests made out of the blue.
+        if ('Notification' in window && Notification.permission === 'default') {
+            Notification.requestPermission().catch(() => {});
+        }
+    };
+
+    const handleCancelVideoJob = (job: VideoJob) => {
+        videoPollersRef.current.get(job.id)?.abort();
+        videoPollersRef.current.delete(job.id);
+        updateVideoJobs(prev => prev.filter(j => j.id !== job.id));
+        if (user) deleteVideoJob(user.uid, job.id).catch(error => console.error("Failed to delete video job:", error));
+        replaceVideoJobMessage(job, { id: job.messageId, role: 'model', text: '', truncated: true });
+    };
+
+    const handleOpenSearchResult = (result: ConversationSearchResult) => {
+        setActiveConvId(result.conversationId);
+        setView('chat');
+        // A fresh object re-triggers the scroll even when the same message is picked twice.
+        setMessageFocus(result.messageId ? { messageId: result.messageId } : null);
+    };
+
+    const updatePersonas = (update: (current: Persona[]) => Persona[]) => {
+        setPersonas(update);
+        if (!user) setGuestPersonas(update);
+    };
+
+    const handleSavePersona = (persona: Persona) => {
+        updatePersonas(prev => prev.some(p => p.id === persona.id) ? prev.map(p => p.id === persona.id ? persona : p) : [...prev, persona]);
+        if (user) {
+            savePersona(user.uid, persona).catch(error => {
+                console.error("Failed to save persona:", error);
+                alert(error.message);
+            });
+        }
+    };
+
+    const handleDeletePersona = (persona: Persona) => {
+        if (!window.confirm(`Delete the persona "${persona.name}"? Existing chats keep their instructions.`)) return;
+        updatePersonas(prev => prev.filter(p => p.id !== persona.id));
+        if (user) {
+            deletePersona(user.uid, persona.id).catch(error => console.error("Failed to delete persona:", error));
+        }
+    };
+
+    const handleStartChat = (persona: Persona | null) => {
+        setIsPersonaPickerOpen(false);
+        handleNewConversation(persona || undefined);
+        setView('chat');
+    };
+
+    const handleExportConversations = async (convs: Conversation[], format: ExportFormat) => {
+        setIsTransferring(true);
+        try {
+            const content = await exportConversations(convs, format);
+            downloadFile(content, exportFileName(convs, format), EXPORT_FILE_TYPES[format].mimeType);
+        } catch (error) {
+            console.error("Failed to export conversations:", error);
+            alert("Sorry, the export failed.");
+        } finally {
+            setIsTransferring(false);
+        }
+    };
+
+    const handleImportConversations = async (file: File) => {
+        const storage = storageRef.current;
+        if (!storage) return;
+        setIsTransferring(true);
+        try {
+            const imported = parseConversationsJson(await file.text());
+            const created: Conversation[] = [];
+            for (const convData of imported) {
+                created.push(await storage.createConversation({ ...convData, messages: await externalizeMedia(convData.messages) }));
+            }
+            if (created.length > 0) {
+                setConversations(prev => [...created, ...prev]);
+                setActiveConvId(created[0].id);
+                setView('chat');
+                setMessageFocus(null);
+            }
+        } catch (error: any) {
+            console.error("Failed to import conversations:", error);
+            alert(error.message || "Sorry, the import failed.");
+        } finally {
+            setIsTransferring(false);
+        }
+    };
+
+    const handleGenerateTitle = async (conversation: Conversation) => {
+        titleRequestedRef.current.add(conversation.id);
+        setTitleGeneratingId(conversation.id);
+        try {
+            const { title, summary } = await generateConversationTitle(conversation.messages);
+            patchConversation(conversation.id, { title, summary });
+        } catch (error) {
+            console.error("Failed to generate conversation title:", error);
+        } finally {
+            setTitleGeneratingId(current => current === conversation.id ? null : current);
+        }
+    };
+
+    // Name untitled conversations automatically once their first exchange finishes.
+    useEffect(() => {
+        conversations.forEach(conv => {
+            if (!conv.deletedAt && conv.title === DEFAULT_CONVERSATION_TITLE && !titleRequestedRef.current.has(conv.id) && hasCompletedFirstExchange(conv)) {
+                handleGenerateTitle(conv);
+            }
+        });
+    }, [conversations]);
+
+    const visibleConversations = conversations.filter(c => !c.deletedAt);
+    const activeConversation = visibleConversations.find(c => c.id === activeConvId) || null;
+
+    // A chat started from a persona speaks with the persona's voice; otherwise with the user's.
+    const activePersona = personas.find(p => p.id === activeConversation?.persona?.id);
+    const voiceOwnerId = user?.uid ?? GUEST_OWNER_ID;
+    const speechVoice = activePersona?.voice || speechVoices[voiceOwnerId];
+    const handleSpeechVoiceChange = (voice: string) => {
+        if (activePersona) {
+            handleSavePersona({ ...activePersona, voice });
+        } else {
+            setSpeechVoices(prev => ({ ...prev, [voiceOwnerId]: voice }));
+        }
+    };
 
     if (appError) {
         return <ErrorOverlay message={appError} />;
@@ -170,8 +616,8 @@ export default function App() {
     if (authLoading) {
         return <div className="flex h-screen w-full items-center justify-center bg-gray-100 dark:bg-gray-900"><Spinner className="h-10 w-10" /></div>;
     }
-    if (!user) {
-        return <Auth />;
+    if (!sessionUser) {
+        return <Auth onContinueAsGuest={() => setGuestMode(true)} />;
     }
     
     if (!activeConversation) {
@@ -188,40 +634,110 @@ export default function App() {
     return (
         <div className="flex h-screen w-full bg-gray-100 dark:bg-black/80 text-gray-900 dark:text-gray-200">
             <Sidebar
-                user={user}
+                user={sessionUser}
+                isGuest={!user}
+                syncState={syncState}
+                onRetryFailedSync={handleRetryFailedSync}
+                onDiscardFailedSync={handleDiscardFailedSync}
                 onLogout={handleLogout}
-                conversations={conversations}
+                conversations={visibleConversations}
                 activeConversationId={activeConvId!}
-                onSelectConversation={setActiveConvId}
-                onNewConversation={() => handleNewConversation()}
+                onSelectConversation={(id) => { setActiveConvId(id); setView('chat'); setMessageFocus(null); }}
+                onNewConversation={() => { handleNewConversation(); setView('chat'); }}
+                onOpenPersonas={() => setIsPersonaPickerOpen(true)}
+                view={view}
+                onSelectView={setView}
+                onRenameConversation={handleRenameConversation}
+                onTogglePin={handleTogglePin}
+                onToggleArchive={handleToggleArchive}
+                onDeleteConversation={handleDeleteConversation}
+                onOpenSearchResult={handleOpenSearchResult}
+                isTransferring={isTransferring}
+                onExportAll={(format) => handleExportConversations(visibleConversations, format)}
+                onImport={handleImportConversations}
             />
             <main className="flex flex-1 flex-col bg-white dark:bg-gray-900/50">
                 <Header
+                    view={view}
                     theme={theme}
                     onToggleTheme={() => setTheme(theme === 'dark' ? 'light' : 'dark')}
                     conversation={activeConversation}
+                    isGeneratingTitle={titleGeneratingId === activeConversation.id}
+                    onRegenerateTitle={() => handleGenerateTitle(activeConversation)}
                     onModelChange={(modelId) => setConversations(prev => prev.map(c => c.id === activeConvId ? { ...c, model: modelId } : c))}
                     useSearch={useSearch}
                     onUseSearchChange={setUseSearch}
+                    useTools={useTools}
+                    onUseToolsChange={setUseTools}
                     useThinkingMode={useThinkingMode}
                     onUseThinkingModeChange={setUseThinkingMode}
+                    isExporting={isTransferring}
+                    onExport={(format) => handleExportConversations([activeConversation], format)}
+                    onSystemInstructionChange={(systemInstruction) => applyConversationFields(activeConversation.id, { systemInstruction })}
                 />
                 <div className="flex-1 overflow-y-auto">
-                    <ChatInterface
-                        key={activeConversation.id} // Re-mount component on conversation change
-                        conversation={activeConversation}
-                        onUpdateConversation={updateConversation}
-                        useSearch={useSearch}
-                        useThinkingMode={useThinkingMode}
-                    />
+                    {view === 'live-convo' ? (
+                        <LiveConversation />
+                    ) : view === 'usage' ? (
+                        <UsageDashboard
+                            conversations={visibleConversations}
+                            prices={priceTable}
+                            onPricesChange={setPriceTable}
+                            onOpenConversation={(id) => { setActiveConvId(id); setView('chat'); setMessageFocus(null); }}
+                        />
+                    ) : (
+                        <ChatInterface
+                            key={activeConversation.id} // Re-mount component on conversation change
+                            conversation={activeConversation}
+                            focusedMessage={messageFocus}
+                            onUpdateConversation={updateConversation}
+                            useSearch={useSearch}
+                            useTools={useTools}
+                            searchableConversations={visibleConversations}
+                            useThinkingMode={useThinkingMode}
+                            priceTable={priceTable}
+                            contextBudget={contextBudget}
+                            onContextBudgetChange={setContextBudget}
+                            onContextSummaryChange={(contextSummary) => patchConversation(activeConversation.id, { contextSummary })}
+                            onStartVideoJob={handleStartVideoJob}
+                            onPreviewCapabilitiesChange={(previewCapabilities) => applyConversationFields(activeConversation.id, { previewCapabilities })}
+                            speechVoice={speechVoice}
+                            onSpeechVoiceChange={handleSpeechVoiceChange}
+                        />
+                    )}
                 </div>
             </main>
+            <PersonaPicker
+                isOpen={isPersonaPickerOpen}
+                personas={personas}
+                models={MODELS}
+                tools={CHAT_TOOLS}
+                voicesFor={(model) => getModelProvider(model).voices}
+                onClose={() => setIsPersonaPickerOpen(false)}
+                onStartChat={handleStartChat}
+                onSavePersona={handleSavePersona}
+                onDeletePersona={handleDeletePersona}
+            />
+            <VideoJobsPanel
+                jobs={videoJobs}
+                onOpen={(job) => { setActiveConvId(job.conversationId); setView('chat'); setMessageFocus({ messageId: job.messageId }); }}
+                onCancel={handleCancelVideoJob}
+                onDismiss={(job) => updateVideoJobs(prev => prev.filter(j => j.id !== job.id))}
+            />
+            {pendingDeletion && (
+                <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40">
+                    <GlassCard className="px-4 py-3 flex items-center gap-4 text-sm">
+                        <span>Deleted "<span className="font-semibold">{pendingDeletion.title}</span>"</span>
+                        <Button variant="secondary" onClick={handleUndoDelete} className="text-xs px-3 py-1">Undo</Button>
+                    </GlassCard>
+                </div>
+            )}
         </div>
     );
 }
 
 // --- AUTH COMPONENT ---
-const Auth: React.FC<{}> = () => {
+const Auth: React.FC<{ onContinueAsGuest: () => void }> = ({ onContinueAsGuest }) => {
     const [isSigningUp, setIsSigningUp] = useState(false);
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
@@ -287,6 +803,11 @@ const Auth: React.FC<{}> = () => {
                     {isSigningUp ? 'Sign In' : 'Sign Up'}
                 </button>
             </p>
+            <p className="text-center text-sm mt-2">
+                <button onClick={onContinueAsGuest} className="text-gray-500 dark:text-gray-400 hover:underline">
+                    Continue without an account
+                </button>
+            </p>
         </GlassCard>
       </Modal>
     );
@@ -308,106 +829,426 @@ const ErrorOverlay: React.FC<{ message: string }> = ({ message }) => (
 // --- LAYOUT COMPONENTS ---
 interface SidebarProps {
     user: User;
+    isGuest: boolean;
+    syncState: SyncState | null;
+    onRetryFailedSync: () => void;
+    onDiscardFailedSync: () => void;
     onLogout: () => void;
     conversations: Conversation[];
     activeConversationId: string;
     onSelectConversation: (id: string) => void;
     onNewConversation: () => void;
+    onOpenPersonas: () => void;
+    view: ViewId;
+    onSelectView: (view: ViewId) => void;
+    onRenameConversation: (id: string, title: string) => void;
+    onTogglePin: (conversation: Conversation) => void;
+    onToggleArchive: (conversation: Conversation) => void;
+    onDeleteConversation: (conversation: Conversation) => void;
+    onOpenSearchResult: (result: ConversationSearchResult) => void;
+    isTransferring: boolean;
+    onExportAll: (format: ExportFormat) => void;
+    onImport: (file: File) => void;
 }
-const Sidebar: React.FC<SidebarProps> = ({ user, onLogout, conversations, activeConversationId, onSelectConversation, onNewConversation }) => (
-  <aside className="w-72 flex-col border-r border-black/10 dark:border-white/10 p-4 hidden md:flex bg-gray-200 dark:bg-gray-900">
-    <div className="flex items-center gap-2 mb-8">
-      <SparklesIcon className="h-8 w-8 text-indigo-400" />
-      <h1 className="text-2xl font-bold text-slate-900 dark:text-white">RipoAI</h1>
-    </div>
-    <Button variant="secondary" className="w-full justify-start" onClick={onNewConversation}>
-      <PlusIcon className="h-5 w-5" /> New Chat
-    </Button>
-    <nav className="mt-8 flex-1 space-y-1 overflow-y-auto -mr-2 pr-2">
-      {conversations.map(conv => (
-        <button
-          key={conv.id}
-          onClick={() => onSelectConversation(conv.id)}
-          className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm transition-colors truncate text-left ${
-            activeConversationId === conv.id ? 'bg-indigo-600 text-white' : 'hover:bg-black/10 dark:hover:bg-white/10'
+const Sidebar: React.FC<SidebarProps> = ({ user, isGuest, syncState, onRetryFailedSync, onDiscardFailedSync, onLogout, conversations, activeConversationId, onSelectConversation, onNewConversation, onOpenPersonas, view, onSelectView, onOpenSearchResult, isTransferring, onExportAll, onImport, ...itemActions }) => {
+  const [showArchived, setShowArchived] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const searchResults = searchQuery.trim() ? searchConversations(conversations, searchQuery) : [];
+  const activeList = conversations.filter(c => !c.archived);
+  // Pinned conversations float to the top; the rest keep their recency order.
+  const sortedList = [...activeList.filter(c => c.pinned), ...activeList.filter(c => !c.pinned)];
+  const archivedList = conversations.filter(c => c.archived);
+
+  const renderItem = (conv: Conversation) => (
+    <ConversationItem
+      key={conv.id}
+      conversation={conv}
+      isActive={view === 'chat' && activeConversationId === conv.id}
+      onSelect={() => onSelectConversation(conv.id)}
+      onRename={(title) => itemActions.onRenameConversation(conv.id, title)}
+      onTogglePin={() => itemActions.onTogglePin(conv)}
+      onToggleArchive={() => itemActions.onToggleArchive(conv)}
+      onDelete={() => itemActions.onDeleteConversation(conv)}
+    />
+  );
+
+  return (
+    <aside className="w-72 flex-col border-r border-black/10 dark:border-white/10 p-4 hidden md:flex bg-gray-200 dark:bg-gray-900">
+      <div className="flex items-center gap-2 mb-8">
+        <SparklesIcon className="h-8 w-8 text-indigo-400" />
+        <h1 className="text-2xl font-bold text-slate-900 dark:text-white">RipoAI</h1>
+      </div>
+      <div className="flex gap-2">
+        <Button variant="secondary" className="flex-1 justify-start" onClick={onNewConversation}>
+          <PlusIcon className="h-5 w-5" /> New Chat
+        </Button>
+        <Button variant="secondary" className="px-3" onClick={onOpenPersonas} title="New chat with a persona">
+          <UserIcon className="h-5 w-5" />
+        </Button>
+      </div>
+      <Button variant={view === 'live-convo' ? 'primary' : 'ghost'} className="w-full justify-start mt-2" onClick={() => onSelectView('live-convo')}>
+        <AudioLinesIcon className="h-5 w-5" /> Live Conversation
+      </Button>
+      <Button variant={view === 'usage' ? 'primary' : 'ghost'} className="w-full justify-start mt-1" onClick={() => onSelectView('usage')}>
+        <BarChartIcon className="h-5 w-5" /> Usage
+      </Button>
+      <div className="relative mt-4">
+        <SearchIcon className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+        <Input
+          value={searchQuery}
+          onChange={e => setSearchQuery(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Escape') setSearchQuery(''); }}
+          placeholder="Search conversations..."
+          className="pl-9 pr-8 py-2 text-sm"
+        />
+        {searchQuery && (
+          <button onClick={() => setSearchQuery('')} className="absolute right-2 top-1/2 -translate-y-1/2 p-1 text-gray-500 hover:text-slate-800 dark:hover:text-white">
+            <XIcon className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+      {searchQuery.trim() ? (
+        <nav className="mt-4 flex-1 space-y-1 overflow-y-auto -mr-2 pr-2">
+          {searchResults.length === 0 && <p className="px-3 py-2 text-sm text-gray-500">No matches found.</p>}
+          {searchResults.map((result, index) => (
+            <button
+              key={`${result.conversationId}-${result.messageId || 'title'}-${index}`}
+              onClick={() => onOpenSearchResult(result)}
+              className="w-full px-3 py-2 rounded-lg text-left hover:bg-black/10 dark:hover:bg-white/10"
+            >
+              <p className="text-xs font-semibold text-slate-900 dark:text-white truncate">
+                {result.conversationTitle}{result.source === 'code' && <span className="ml-1 font-normal text-gray-500">· code</span>}
+              </p>
+              <p className={`text-xs text-gray-600 dark:text-gray-400 line-clamp-2 break-words ${result.source === 'code' ? 'font-mono' : ''}`}>
+                {result.snippet.before}
+                <mark className="bg-yellow-300/70 dark:bg-yellow-500/40 text-inherit rounded px-0.5">{result.snippet.match}</mark>
+                {result.snippet.after}
+              </p>
+            </button>
+          ))}
+        </nav>
+      ) : (
+        <nav className="mt-4 flex-1 space-y-1 overflow-y-auto -mr-2 pr-2">
+          {sortedList.map(renderItem)}
+          {archivedList.length > 0 && (
+            <>
+              <button onClick={() => setShowArchived(s => !s)} className="w-full flex items-center gap-2 px-3 pt-4 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 hover:text-slate-800 dark:hover:text-white">
+                <ArchiveIcon className="h-3.5 w-3.5" /> Archived ({archivedList.length})
+              </button>
+              {showArchived && archivedList.map(renderItem)}
+            </>
+          )}
+        </nav>
+      )}
+      <div className="mt-auto border-t border-black/10 dark:border-white/10 pt-4">
+          <div className="flex items-center gap-1 mb-3">
+             <ExportMenu label="Export all" direction="up" disabled={isTransferring || conversations.length === 0} onExport={onExportAll} />
+             <Button variant="ghost" onClick={() => importInputRef.current?.click()} disabled={isTransferring} className="text-xs px-2 py-1" title="Import a JSON export">
+                  <UploadIcon className="h-4 w-4" /> Import
+             </Button>
+             <input
+                ref={importInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={e => {
+                    const file = e.target.files?.[0];
+                    e.target.value = ''; // allow importing the same file twice
+                    if (file) onImport(file);
+                }}
+             />
+             {isTransferring && <Spinner className="h-4 w-4 ml-auto" />}
+          </div>
+          <div className="flex items-center justify-between">
+             <div className="flex items-center gap-3 cursor-pointer">
+                {user.photoURL ? (
+                  <img src={user.photoURL} alt={user.name || 'User'} className="h-8 w-8 rounded-full" />
+                ) : (
+                  <div className="h-8 w-8 rounded-full bg-indigo-500 flex items-center justify-center font-bold text-white">
+                    {user.name ? user.name.charAt(0).toUpperCase() : '?'}
+                  </div>
+                )}
+                <div>
+                    <p className="font-semibold text-slate-900 dark:text-white text-sm">{user.name}</p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400">{user.email}</p>
+                </div>
+             </div>
+             <Button variant="ghost" onClick={onLogout} className="px-2" title={isGuest ? 'Sign in' : 'Sign out'}>
+                  <LogOutIcon className="h-5 w-5"/>
+             </Button>
+          </div>
+          {syncState && <SyncStatus state={syncState} onRetry={onRetryFailedSync} onDiscard={onDiscardFailedSync} />}
+      </div>
+    </aside>
+  );
+};
+
+// ExportMenu: A button that opens a small menu of export formats
+const ExportMenu: React.FC<{ label: string; direction: 'up' | 'down'; disabled?: boolean; onExport: (format: ExportFormat) => void }> = ({ label, direction, disabled, onExport }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const handleClickOutside = (event: MouseEvent) => {
+            if (!containerRef.current?.contains(event.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, [isOpen]);
+
+    return (
+        <div ref={containerRef} className="relative">
+            <Button variant="ghost" onClick={() => setIsOpen(open => !open)} disabled={disabled} className="text-xs px-2 py-1">
+                <DownloadIcon className="h-4 w-4" /> {label}
+            </Button>
+            {isOpen && (
+                <div className={`absolute z-30 w-40 ${direction === 'up' ? 'bottom-full mb-2 left-0' : 'top-full mt-2 right-0'}`}>
+                    <GlassCard className="p-1">
+                        {(Object.keys(EXPORT_FILE_TYPES) as ExportFormat[]).map(format => (
+                            <button
+                                key={format}
+                                onClick={() => { setIsOpen(false); onExport(format); }}
+                                className="w-full text-left px-3 py-1.5 rounded text-sm hover:bg-black/10 dark:hover:bg-white/10"
+                            >
+                                {EXPORT_FILE_TYPES[format].label} <span className="text-xs text-gray-500">.{EXPORT_FILE_TYPES[format].extension}</span>
+                            </button>
+                        ))}
+                    </GlassCard>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// SyncStatus: One line under the user telling whether local changes have reached Firestore
+const SyncStatus: React.FC<{ state: SyncState; onRetry: () => void; onDiscard: () => void }> = ({ state, onRetry, onDiscard }) => {
+    if (state.localOnly) return null;
+    const changes = `${state.pending} change${state.pending === 1 ? '' : 's'}`;
+    let text: string;
+    if (!state.online) text = state.pending > 0 ? `Offline · ${changes} waiting to sync` : 'Offline · changes will sync later';
+    else if (state.pending > 0) text = `Syncing ${changes}...`;
+    else if (state.failed > 0) text = `${state.failed} change${state.failed === 1 ? '' : 's'} could not be synced`;
+    else return null;
+    const isFailed = state.online && state.pending === 0;
+    return (
+        <p className="mt-2 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400" title={isFailed ? 'Firestore rejected these changes; they are kept on this device only' : undefined}>
+            <span className={`h-2 w-2 rounded-full ${isFailed ? 'bg-red-500' : state.online ? 'bg-indigo-400 animate-pulse' : 'bg-yellow-500'}`} />
+            {text}
+            {isFailed && (
+                <>
+                    <button onClick={onRetry} className="ml-auto font-semibold text-indigo-500 hover:underline">Retry</button>
+                    <button onClick={onDiscard} className="font-semibold hover:underline">Discard</button>
+                </>
+            )}
+        </p>
+    );
+};
+
+interface ConversationItemProps {
+    conversation: Conversation;
+    isActive: boolean;
+    onSelect: () => void;
+    onRename: (title: string) => void;
+    onTogglePin: () => void;
+    onToggleArchive: () => void;
+    onDelete: () => void;
+}
+const ConversationItem: React.FC<ConversationItemProps> = ({ conversation, isActive, onSelect, onRename, onTogglePin, onToggleArchive, onDelete }) => {
+    const [isRenaming, setIsRenaming] = useState(false);
+    const [draftTitle, setDraftTitle] = useState(conversation.title);
+
+    const startRename = () => {
+        setDraftTitle(conversation.title);
+        setIsRenaming(true);
+    };
+
+    const commitRename = () => {
+        setIsRenaming(false);
+        if (draftTitle.trim() && draftTitle.trim() !== conversation.title) {
+            onRename(draftTitle);
+        }
+    };
+
+    if (isRenaming) {
+        return (
+            <input
+                autoFocus
+                value={draftTitle}
+                onChange={e => setDraftTitle(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={e => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setIsRenaming(false);
+                }}
+                className="w-full px-3 py-2 rounded-lg text-sm bg-white dark:bg-black/40 border border-indigo-500 focus:outline-none"
+            />
+        );
+    }
+
+    const actionClass = `p-1 rounded ${isActive ? 'hover:bg-white/20' : 'hover:bg-black/10 dark:hover:bg-white/10'}`;
+
+    return (
+        <div
+          className={`group w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm transition-colors cursor-pointer ${
+            isActive ? 'bg-indigo-600 text-white' : 'hover:bg-black/10 dark:hover:bg-white/10'
           }`}
+          onClick={onSelect}
+          onDoubleClick={startRename}
         >
-          <MessageSquareIcon className="h-4 w-4 shrink-0" />
-          <span className="truncate">{conv.title}</span>
-        </button>
-      ))}
-    </nav>
-    <div className="mt-auto border-t border-black/10 dark:border-white/10 pt-4">
-        <div className="flex items-center justify-between">
-           <div className="flex items-center gap-3 cursor-pointer">
-              {user.photoURL ? (
-                <img src={user.photoURL} alt={user.name || 'User'} className="h-8 w-8 rounded-full" />
-              ) : (
-                <div className="h-8 w-8 rounded-full bg-indigo-500 flex items-center justify-center font-bold text-white">
-                  {user.name ? user.name.charAt(0).toUpperCase() : '?'}
-                </div>
-              )}
-              <div>
-                  <p className="font-semibold text-slate-900 dark:text-white text-sm">{user.name}</p>
-                  <p className="text-xs text-gray-600 dark:text-gray-400">{user.email}</p>
-              </div>
-           </div>
-           <Button variant="ghost" onClick={onLogout} className="px-2">
-                <LogOutIcon className="h-5 w-5"/>
-           </Button>
+          {conversation.pinned ? <PinIcon className="h-4 w-4 shrink-0" /> : <MessageSquareIcon className="h-4 w-4 shrink-0" />}
+          <span className="truncate flex-1 text-left" title={conversation.summary}>{conversation.title}</span>
+          <div className="hidden group-hover:flex items-center gap-0.5 shrink-0" onClick={e => e.stopPropagation()}>
+            <button onClick={startRename} className={actionClass} title="Rename"><EditIcon className="h-3.5 w-3.5" /></button>
+            {!conversation.archived && (
+                <button onClick={onTogglePin} className={actionClass} title={conversation.pinned ? 'Unpin' : 'Pin'}><PinIcon className="h-3.5 w-3.5" /></button>
+            )}
+            <button onClick={onToggleArchive} className={actionClass} title={conversation.archived ? 'Unarchive' : 'Archive'}><ArchiveIcon className="h-3.5 w-3.5" /></button>
+            <button onClick={onDelete} className={`${actionClass} hover:text-red-400`} title="Delete"><TrashIcon className="h-3.5 w-3.5" /></button>
+          </div>
         </div>
-    </div>
-  </aside>
-);
+    );
+};
 
 interface HeaderProps {
+    view: ViewId;
     theme: 'light' | 'dark';
     onToggleTheme: () => void;
     conversation: Conversation;
+    isGeneratingTitle: boolean;
+    onRegenerateTitle: () => void;
     onModelChange: (model: ModelId) => void;
     useSearch: boolean;
     onUseSearchChange: (value: boolean) => void;
+    useTools: boolean;
+    onUseToolsChange: (value: boolean) => void;
     useThinkingMode: boolean;
     onUseThinkingModeChange: (value: boolean) => void;
+    isExporting: boolean;
+    onExport: (format: ExportFormat) => void;
+    onSystemInstructionChange: (systemInstruction: string) => void;
 }
-const Header: React.FC<HeaderProps> = ({ theme, onToggleTheme, conversation, onModelChange, useSearch, onUseSearchChange, useThinkingMode, onUseThinkingModeChange }) => (
+const Header: React.FC<HeaderProps> = ({ view, theme, onToggleTheme, conversation, isGeneratingTitle, onRegenerateTitle, onModelChange, useSearch, onUseSearchChange, useTools, onUseToolsChange, useThinkingMode, onUseThinkingModeChange, isExporting, onExport, onSystemInstructionChange }) => {
+  const [isEditingInstruction, setIsEditingInstruction] = useState(false);
+  return (
   <header className="flex h-16 items-center justify-between border-b border-black/10 dark:border-white/10 px-6 shrink-0">
-    <div className="flex items-center gap-6">
-        <Select value={conversation.model} onChange={e => onModelChange(e.target.value as ModelId)}>
-            {MODELS.map(model => (
-                <option key={model.id} value={model.id}>{model.name} ({model.speed})</option>
-            ))}
-        </Select>
-        <div className="hidden md:flex items-center gap-6">
-            <ToggleSwitch label="Web Search" checked={useSearch} onChange={onUseSearchChange} />
-            <ToggleSwitch label="Thinking Mode" checked={useThinkingMode} onChange={onUseThinkingModeChange} />
+    {view === 'live-convo' ? (
+        <div className="flex items-center gap-2 font-semibold text-slate-900 dark:text-white">
+            <AudioLinesIcon className="h-5 w-5 text-indigo-400" /> Live Conversation
         </div>
-    </div>
+    ) : view === 'usage' ? (
+        <div className="flex items-center gap-2 font-semibold text-slate-900 dark:text-white">
+            <BarChartIcon className="h-5 w-5 text-indigo-400" /> Usage &amp; Cost
+        </div>
+    ) : (
+        <div className="flex items-center gap-6">
+            <Select value={conversation.model} onChange={e => onModelChange(e.target.value as ModelId)}>
+                {MODELS.map(model => (
+                    <option key={model.id} value={model.id}>{model.name} ({model.speed})</option>
+                ))}
+            </Select>
+            <div className="hidden md:flex items-center gap-6">
+                <ToggleSwitch label="Web Search" checked={useSearch} onChange={onUseSearchChange} />
+                <span title={useSearch && getModelProvider(conversation.model).id === 'gemini' ? 'Gemini can\'t use local tools together with Web Search' : 'Calculator, date & time, unit conversion and conversation search'}>
+                    <ToggleSwitch label="Tools" checked={useTools} onChange={onUseToolsChange} />
+                </span>
+                <ToggleSwitch label="Thinking Mode" checked={useThinkingMode} onChange={onUseThinkingModeChange} />
+            </div>
+            <div className="hidden lg:flex items-center gap-2 min-w-0">
+                {conversation.persona && <span className="text-2xl shrink-0" title={conversation.persona.name}>{conversation.persona.avatar}</span>}
+                <div className="min-w-0">
+                    <p className="text-sm font-semibold text-slate-900 dark:text-white truncate">{conversation.title}</p>
+                    {conversation.summary && <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{conversation.summary}</p>}
+                </div>
+                <Button variant="ghost" onClick={onRegenerateTitle} disabled={isGeneratingTitle || !hasCompletedFirstExchange(conversation)} className="p-1.5 shrink-0" title="Regenerate title">
+                    {isGeneratingTitle ? <Spinner className="h-4 w-4" /> : <RefreshIcon className="h-4 w-4" />}
+                </Button>
+            </div>
+        </div>
+    )}
     <div className="flex items-center gap-4">
+        {view === 'chat' && (
+            <Button variant="ghost" onClick={() => setIsEditingInstruction(true)} className="p-2 aspect-square relative" title="System prompt">
+                <SettingsIcon className="h-5 w-5" />
+                {conversation.systemInstruction && <span className="absolute top-1.5 right-1.5 h-2 w-2 rounded-full bg-indigo-400" />}
+            </Button>
+        )}
+        {view === 'chat' && <ExportMenu label="Export" direction="down" disabled={isExporting} onExport={onExport} />}
         <Button variant="ghost" onClick={onToggleTheme} className="p-2 aspect-square">
             {theme === 'dark' ? <SunIcon className="h-5 w-5" /> : <MoonIcon className="h-5 w-5" />}
         </Button>
     </div>
+    {isEditingInstruction && (
+        <SystemInstructionModal
+            value={conversation.systemInstruction || ''}
+            onSave={(value) => { onSystemInstructionChange(value); setIsEditingInstruction(false); }}
+            onClose={() => setIsEditingInstruction(false)}
+        />
+    )}
   </header>
-);
+  );
+};
+
+// SystemInstructionModal: Edits the instructions sent with every request in a conversation
+const SystemInstructionModal: React.FC<{ value: string; onSave: (value: string) => void; onClose: () => void }> = ({ value, onSave, onClose }) => {
+    const [draft, setDraft] = useState(value);
+    return (
+        <Modal isOpen={true} onClose={onClose}>
+            <GlassCard className="w-full">
+                <h2 className="text-lg font-bold text-slate-900 dark:text-white mb-1">System Prompt</h2>
+                <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">Tell the assistant how to behave in this conversation. It applies to every new reply.</p>
+                <Textarea
+                    autoFocus
+                    value={draft}
+                    onChange={e => setDraft(e.target.value)}
+                    placeholder="e.g. You are a concise senior engineer. Answer with code first, then a short explanation."
+                    rows={8}
+                />
+                <div className="flex justify-end gap-2 mt-4">
+                    <Button variant="ghost" onClick={onClose}>Cancel</Button>
+                    <Button onClick={() => onSave(draft.trim())} disabled={draft.trim() === value.trim()}>Save</Button>
+                </div>
+            </GlassCard>
+        </Modal>
+    );
+};
 
 // --- CHAT INTERFACE COMPONENT ---
 interface ChatInterfaceProps {
     conversation: Conversation;
+    focusedMessage: { messageId: string } | null;
     onUpdateConversation: (convId: string, messages: Message[], newModel?: ModelId) => void;
     useSearch: boolean;
+    useTools: boolean;
+    searchableConversations: Conversation[];
     useThinkingMode: boolean;
+    priceTable: PriceTable;
+    contextBudget: number;
+    onContextBudgetChange: (budget: number) => void;
+    onContextSummaryChange: (summary: ContextSummary) => void;
+    onStartVideoJob: (job: Pick<VideoJob, 'conversationId' | 'messageId' | 'prompt' | 'operationName'>) => void;
+    onPreviewCapabilitiesChange: (capabilities: PreviewCapabilities) => void;
+    speechVoice?: string; // the preferred text-to-speech voice; providers without it use their default
+    onSpeechVoiceChange: (voice: string) => void;
 }
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversation, onUpdateConversation, useSearch, useThinkingMode }) => {
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversation, focusedMessage, onUpdateConversation, useSearch, useTools, searchableConversations, useThinkingMode, priceTable, contextBudget, onContextBudgetChange, onContextSummaryChange, onStartVideoJob, onPreviewCapabilitiesChange, speechVoice, onSpeechVoiceChange }) => {
     const [messages, setMessages] = useState<Message[]>(conversation.messages);
+    const messagesRef = useRef(messages);
+    messagesRef.current = messages;
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [imageFile, setImageFile] = useState<File | null>(null);
     const [imageUrl, setImageUrl] = useState<string | null>(null);
     const [videoFile, setVideoFile] = useState<File | null>(null);
     const [videoUrl, setVideoUrl] = useState<string | null>(null);
+    const [audioFile, setAudioFile] = useState<File | null>(null);
+    const [audioUrl, setAudioUrl] = useState<string | null>(null);
+    const [attachedFiles, setAttachedFiles] = useState<{ file: File; attachment: Attachment }[]>([]); // the chat tool takes several files
     const [aspectRatio, setAspectRatio] = useState<"16:9" | "9:16">("16:9");
-    const [activeTool, setActiveTool] = useState<ChatTool>('chat');
+    const [imageSettings, setImageSettings] = useLocalStorage<ImageGenSettings>('imageGenSettings', DEFAULT_IMAGE_GEN_SETTINGS);
+    const [activeTool, setActiveTool] = useState<ChatTool>(conversation.defaultTool || 'chat');
+    const [editorSession, setEditorSession] = useState<{ messageId: string; steps: ImageEditStep[]; index: number } | null>(null);
     
     const [isToolPopoverOpen, setIsToolPopoverOpen] = useState(false);
     const toolButtonRef = useRef<HTMLButtonElement>(null);
@@ -419,55 +1260,118 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversation, onUpdateCon
     const endOfMessagesRef = useRef<HTMLDivElement>(null);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+    const provider = getModelProvider(conversation.model);
 
     useEffect(() => {
         endOfMessagesRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [messages]);
 
+    // Jump to a message picked from the sidebar search and briefly highlight it.
+    useEffect(() => {
+        if (!focusedMessage) return;
+        const element = document.getElementById(`message-${focusedMessage.messageId}`);
+        if (!element) return;
+        element.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        setHighlightedMessageId(focusedMessage.messageId);
+        const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+        return () => clearTimeout(timer);
+    }, [focusedMessage]);
+
+    // Only chat takes attachments. This also catches files that finish loading after a tool switch.
+    useEffect(() => {
+        if (activeTool !== 'chat' && attachedFiles.length > 0) setAttachedFiles([]);
+    }, [activeTool, attachedFiles]);
+
     const resetInputs = () => {
         setInput('');
         setImageFile(null);
         setImageUrl(null);
         setVideoFile(null);
         setVideoUrl(null);
+        setAudioFile(null);
+        setAudioUrl(null);
+        setAttachedFiles([]);
         if(fileInputRef.current) fileInputRef.current.value = "";
     };
 
-    const handleSendMessage = useCallback(async () => {
-        const currentInput = input;
-        const currentImageFile = imageFile;
-        const currentVideoFile = videoFile;
-        if (!currentInput.trim() && !currentImageFile && !currentVideoFile) return;
-
+    // Starts a cancellable generation; any generation still running is aborted first.
+    const startGeneration = (): AbortSignal => {
+        abortControllerRef.current?.abort();
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
         setIsLoading(true);
-        const userMessage: Message = { id: Date.now().toString(), role: 'user', text: currentInput, image: imageUrl || undefined, video: videoUrl || undefined };
-        const newMessages = [...messages, userMessage];
-        setMessages(newMessages);
-        
-        resetInputs();
-        
+        return controller.signal;
+    };
+
+    const finishGeneration = (signal: AbortSignal) => {
+        if (abortControllerRef.current?.signal === signal) {
+            abortControllerRef.current = null;
+            setIsLoading(false);
+        }
+    };
+
+    const handleStopGeneration = () => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        setIsLoading(false);
+    };
+
+    const createStoppedMessage = (text = ''): Message => ({ id: Date.now().toString() + '-stopped', role: 'model', text, truncated: true });
+
+    // Runs `tool` for a user turn. `history` holds the turns before it, and `withReply` places
+    // the model's reply into the thread (appending it, or forking the thread when regenerating).
+    const generateResponse = async (
+        history: Message[],
+        withReply: (reply: Message) => Message[],
+        tool: ChatTool,
+        prompt: string,
+        attachments: { image?: File | null; video?: File | null; audio?: File | null; files?: File[] },
+        signal: AbortSignal,
+        settings: ImageGenSettings = imageSettings,
+    ) => {
+        const { image = null, video = null, audio = null, files = [] } = attachments;
         try {
             let modelResponse: Partial<Message> = {};
 
-            switch(activeTool) {
-                case 'image-gen':
-                    modelResponse.generatedImage = await generateImage(currentInput, '1:1');
+            switch(tool) {
+                case 'image-gen': {
+                    const images = await provider.generateImage(prompt, settings, signal);
+                    modelResponse.generatedImages = images;
+                    modelResponse.generatedImage = images[0];
+                    modelResponse.usage = [{ model: provider.models.image, images: images.length }];
+                    if (images.length < settings.count) {
+                        modelResponse.text = `Here ${images.length === 1 ? 'is 1' : `are ${images.length}`} of the ${settings.count} images you requested; the others were blocked by safety filters.`;
+                    }
                     break;
+                }
                 case 'image-edit':
-                    if (!currentImageFile) throw new Error("Please upload an image to edit.");
-                    modelResponse.generatedImage = await editImage(currentInput, currentImageFile);
+                    if (!image) throw new Error("Please upload an image to edit.");
+                    modelResponse.generatedImage = await editImage(prompt, image, signal);
+                    modelResponse.usage = [{ model: ModelId.GEMINI_FLASH_IMAGE, images: 1 }];
                     break;
                 case 'canvas':
-                    modelResponse.generatedCode = await generateCode(currentInput, useThinkingMode);
+                    // Each prompt edits the project as the thread left it, so forks and regenerations build on their own history.
+                    modelResponse.codeFiles = await generateCode(prompt, findLatestCodeFiles(history), useThinkingMode, signal);
+                    break;
+                case 'audio-transcription': {
+                    const media = audio || video;
+                    if (!media) throw new Error("The original recording is no longer available.");
+                    const segments = await provider.transcribeAudio(media, signal);
+                    modelResponse.transcript = segments;
+                    modelResponse.text = transcriptToText(segments);
                     break;
+                }
                 case 'video-gen': {
-                    let videoGenerated = false;
                     const maxAttempts = 2; // Allow one retry after key selection
                     const statusMessage: Message = { id: Date.now().toString(), role: 'model', text: "Generating video... This may take a few minutes." };
                     
-                    onUpdateConversation(conversation.id, [...newMessages, statusMessage]);
+                    onUpdateConversation(conversation.id, withReply(statusMessage));
                 
-                    for (let attempt = 1; attempt <= maxAttempts && !videoGenerated; attempt++) {
+                    // Only starting the job happens here; App polls it from then on, so it survives
+                    // switching conversations and reloading the page.
+                    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
                         try {
                             if (window.aistudio) {
                                 if (attempt === 1) {
@@ -478,27 +1382,16 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversation, onUpdateCon
                                 }
                             }
                 
-                            let operation = await generateVideo(currentInput, currentImageFile || undefined, aspectRatio);
-                            
-                            while (!operation.done) {
-                                await new Promise(resolve => setTimeout(resolve, 10000)); // Poll every 10 seconds
-                                operation = await checkVideoStatus(operation);
-                            }
-                
-                            if (operation.error) {
-                                throw new Error(operation.error.message);
-                            }
-                
-                            const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
-                            if (!uri) throw new Error("Video generation completed, but no video URI was returned.");
-                            
-                            const videoUrl = await fetchVideo(uri);
-                            const videoMessage: Message = { id: Date.now().toString() + '-video', role: 'model', text: 'Your video has been generated!', generatedVideo: videoUrl };
-                            
-                            onUpdateConversation(conversation.id, [...newMessages, videoMessage]);
-                            videoGenerated = true;
+                            const operation = await generateVideo(prompt, image || undefined, aspectRatio, signal);
+                            if (!operation.name) throw new Error("Video generation did not return a job to follow.");
+                            onStartVideoJob({ conversationId: conversation.id, messageId: statusMessage.id, prompt, operationName: operation.name });
+                            break;
                 
                         } catch (error: any) {
+                            if (signal.aborted) {
+                                onUpdateConversation(conversation.id, withReply(createStoppedMessage()));
+                                break;
+                            }
                             console.error(`Video generation failed (attempt ${attempt}):`, error);
                 
                             if (window.aistudio && error.message?.includes("Requested entity was not found.")) {
@@ -508,77 +1401,316 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversation, onUpdateCon
                                 } else {
                                     const finalError = "Video generation failed after multiple attempts. Please check your API key and try again.";
                                     const errorMessage: Message = { id: Date.now().toString(), role: 'model', text: '', error: finalError };
-                                    onUpdateConversation(conversation.id, [...newMessages, errorMessage]);
+                                    onUpdateConversation(conversation.id, withReply(errorMessage));
                                 }
                             } else {
                                 const errorMessageText = `Video generation failed: ${error.message}`;
                                 const errorMessage: Message = { id: Date.now().toString(), role: 'model', text: '', error: errorMessageText };
-                                onUpdateConversation(conversation.id, [...newMessages, errorMessage]);
+                                onUpdateConversation(conversation.id, withReply(errorMessage));
                                 break;
                             }
                         }
                     }
-                    
-                    setIsLoading(false);
                     return;
                 }
                 case 'chat':
                 case 'video-analysis':
                 default:
-                    await handleStreamingChat(newMessages, currentInput, currentImageFile, currentVideoFile);
-                    setIsLoading(false);
+                    await handleStreamingChat(history, withReply, prompt, image, video, files, signal);
                     return;
             }
 
             const modelMessage: Message = {
                 id: Date.now().toString() + '-model',
                 role: 'model',
-                text: `Here is the ${activeTool.replace('-',' ')} you requested.`,
+                text: `Here is the ${tool.replace('-',' ')} you requested.`,
                 ...modelResponse
             };
-            onUpdateConversation(conversation.id, [...newMessages, modelMessage]);
+            onUpdateConversation(conversation.id, withReply(modelMessage));
 
         } catch (error: any) {
+            if (signal.aborted) {
+                onUpdateConversation(conversation.id, withReply(createStoppedMessage()));
+                return;
+            }
             console.error(error);
             const errorMessage: Message = { id: Date.now().toString(), role: 'model', text: '', error: error.message };
-            onUpdateConversation(conversation.id, [...newMessages, errorMessage]);
+            onUpdateConversation(conversation.id, withReply(errorMessage));
+        }
+    };
+
+    const handleSendMessage = useCallback(async () => {
+        const currentInput = input;
+        const currentImageFile = imageFile;
+        const currentVideoFile = videoFile;
+        const currentAudioFile = audioFile;
+        const currentAttachedFiles = attachedFiles;
+        if (!currentInput.trim() && !currentImageFile && !currentVideoFile && !currentAudioFile && currentAttachedFiles.length === 0) return;
+
+        const signal = startGeneration();
+        // Transcription has no prompt, so the uploaded file's name stands in for the message text.
+        const text = activeTool === 'audio-transcription' ? (currentAudioFile || currentVideoFile)?.name || '' : currentInput;
+        const userMessage: Message = { id: Date.now().toString(), role: 'user', text, image: imageUrl || undefined, video: videoUrl || undefined, audioSrc: audioUrl || undefined, attachments: currentAttachedFiles.length ? currentAttachedFiles.map(a => a.attachment) : undefined, tool: activeTool, imageSettings: activeTool === 'image-gen' ? imageSettings : undefined };
+        const newMessages = [...messages, userMessage];
+        setMessages(newMessages);
+        
+        resetInputs();
+        
+        try {
+            await generateResponse(messages, reply => [...newMessages, reply], activeTool, currentInput, { image: currentImageFile, video: currentVideoFile, audio: currentAudioFile, files: currentAttachedFiles.map(a => a.file) }, signal);
         } finally {
-            setIsLoading(false);
+            finishGeneration(signal);
         }
-    }, [input, imageFile, videoFile, imageUrl, videoUrl, messages, conversation.id, onUpdateConversation, activeTool, useThinkingMode, useSearch, aspectRatio]);
+    }, [input, imageFile, videoFile, audioFile, attachedFiles, imageUrl, videoUrl, audioUrl, messages, conversation.id, conversation.contextSummary, contextBudget, onUpdateConversation, activeTool, useThinkingMode, useSearch, useTools, searchableConversations, aspectRatio, imageSettings, provider]);
     
-    const handleStreamingChat = async (currentMessages: Message[], prompt: string, image: File | null, video: File | null) => {
-        const history = currentMessages.slice(0, -1);
+    const handleStreamingChat = async (history: Message[], withReply: (reply: Message) => Message[], prompt: string, image: File | null, video: File | null, files: File[], signal: AbortSignal) => {
+        let modelResponseText = '';
+        let modelMessageId = Date.now().toString() + '-model';
+        let chunks: GroundingChunk[] = [];
+        let usage: UsageRecord | undefined;
+        const toolCalls: ToolCall[] = [];
         try {
-            const stream = await generateChatResponseStream(history, { prompt, image, video, model: conversation.model, useSearch, useThinkingMode });
-
-            let modelResponseText = '';
-            let modelMessageId = Date.now().toString() + '-model';
-            let chunks: GroundingChunk[] = [];
+            const context = await prepareContext(provider, history, {
+                model: conversation.model,
+                prompt,
+                systemInstruction: conversation.systemInstruction,
+                summary: conversation.contextSummary,
+                budget: contextBudget,
+                signal,
+            });
+            if (context.summary && context.summary !== conversation.contextSummary) {
+                onContextSummaryChange(context.summary);
+            }
+            const systemInstruction = withContextSummary(conversation.systemInstruction, context.summary);
+            const tools = useTools ? createToolRunner({ conversations: searchableConversations.filter(c => c.id !== conversation.id) }) : undefined;
+            const stream = await provider.streamChat(context.history, { prompt, image, video, attachments: files, model: conversation.model, useSearch, useThinkingMode, systemInstruction, tools, signal });
             
-            const placeholderMessage: Message = { id: modelMessageId, role: 'model', text: '...' };
-            onUpdateConversation(conversation.id, [...currentMessages, placeholderMessage]);
+            const placeholderMessage: Message = { id: modelMessageId, role: 'model', text: STREAMING_PLACEHOLDER };
+            onUpdateConversation(conversation.id, withReply(placeholderMessage));
 
             for await (const chunk of stream) {
                 modelResponseText += chunk.text;
-                if(chunk.candidates?.[0]?.groundingMetadata?.groundingChunks) {
-                    chunks.push(...chunk.candidates[0].groundingMetadata.groundingChunks);
+                if (chunk.groundingChunks) {
+                    chunks.push(...chunk.groundingChunks);
                 }
-                const streamingMessage: Message = { id: modelMessageId, role: 'model', text: modelResponseText, groundingChunks: chunks };
-                const tempMessages = [...currentMessages, streamingMessage];
-                setMessages(tempMessages);
+                if (chunk.usage) {
+                    usage = chunk.usage; // Counts are cumulative, so the last report covers the whole reply.
+                }
+                if (chunk.toolCall) {
+                    toolCalls.push(chunk.toolCall);
+                }
+                const streamingMessage: Message = { id: modelMessageId, role: 'model', text: modelResponseText, groundingChunks: chunks, toolCalls: toolCalls.length ? [...toolCalls] : undefined };
+                setMessages(withReply(streamingMessage));
             }
-            const finalMessage: Message = { id: modelMessageId, role: 'model', text: modelResponseText, groundingChunks: chunks };
-            onUpdateConversation(conversation.id, [...currentMessages, finalMessage]);
+            const finalMessage: Message = { id: modelMessageId, role: 'model', text: modelResponseText, groundingChunks: chunks, usage: usage ? [usage] : undefined, toolCalls: toolCalls.length ? toolCalls : undefined };
+            onUpdateConversation(conversation.id, withReply(finalMessage));
 
         } catch (error: any) {
+            if (signal.aborted) {
+                // Keep whatever was streamed before the user pressed Stop.
+                const partialMessage: Message = { id: modelMessageId, role: 'model', text: modelResponseText, groundingChunks: chunks, truncated: true, usage: usage ? [usage] : undefined, toolCalls: toolCalls.length ? toolCalls : undefined };
+                onUpdateConversation(conversation.id, withReply(partialMessage));
+                return;
+            }
             console.error(error);
             const errorMessage: Message = { id: Date.now().toString(), role: 'model', text: '', error: error.message };
-            onUpdateConversation(conversation.id, [...currentMessages, errorMessage]);
+            onUpdateConversation(conversation.id, withReply(errorMessage));
+        }
+    };
+
+    // Re-creates the File attachments of an earlier user message so it can be sent again.
+    const loadAttachments = async (message: Message) => ({
+        image: message.image ? await urlToFile(await resolveMediaUrl(message.image), 'image') : null,
+        video: message.video ? await urlToFile(await resolveMediaUrl(message.video), 'video') : null,
+        audio: message.audioSrc ? await urlToFile(await resolveMediaUrl(message.audioSrc), 'recording.webm') : null,
+        files: await Promise.all((message.attachments || []).map(async attachment => urlToFile(await resolveMediaUrl(attachment.src), attachment.name))),
+    });
+
+    const runForkedResponse = async (history: Message[], withReply: (reply: Message) => Message[], userMessage: Message, tool: ChatTool) => {
+        const signal = startGeneration();
+        try {
+            const attachments = await loadAttachments(userMessage);
+            await generateResponse(history, withReply, tool, userMessage.text, attachments, signal, userMessage.imageSettings);
+        } catch (error: any) {
+            console.error(error);
+            const errorMessage: Message = { id: Date.now().toString(), role: 'model', text: '', error: `Could not reload the original attachments: ${error.message}` };
+            onUpdateConversation(conversation.id, withReply(errorMessage));
+        } finally {
+            finishGeneration(signal);
+        }
+    };
+
+    // Edits a user prompt as a new branch and generates a fresh reply for it.
+    const handleEditMessage = (index: number, newText: string) => {
+        const original = messages[index];
+        const editedMessage: Message = { ...original, id: Date.now().toString(), text: newText };
+        const newMessages = forkAt(messages, index, [editedMessage]);
+        setMessages(newMessages);
+        runForkedResponse(messages.slice(0, index), reply => [...newMessages, reply], newMessages[index], original.tool || 'chat');
+    };
+
+    // Generates another version of a model reply, keeping the existing one as a branch.
+    const handleRegenerateMessage = (index: number) => {
+        const userIndex = messages.slice(0, index).map(m => m.role).lastIndexOf('user');
+        if (userIndex === -1) return;
+        const userMessage = messages[userIndex];
+        const tool = userMessage.tool || inferToolForReply(userMessage, messages[index]);
+        const baseMessages = messages;
+        runForkedResponse(messages.slice(0, userIndex), reply => forkAt(baseMessages, index, [reply]), userMessage, tool);
+    };
+
+    const handleSwitchBranch = (index: number, versionIndex: number) => {
+        onUpdateConversation(conversation.id, switchBranch(messages, index, versionIndex));
+    };
+
+    // Changes a message after it was written. Reads the latest messages, since callers may have
+    // awaited a model call in the meantime.
+    const updateMessage = (messageId: string, update: (message: Message) => Message) => {
+        onUpdateConversation(conversation.id, messagesRef.current.map(m => m.id === messageId ? update(m) : m));
+    };
+
+    // Adds usage that happens after a message is written, such as reading it aloud.
+    const handleRecordUsage = (messageId: string, record: UsageRecord) => {
+        updateMessage(messageId, m => ({ ...m, usage: [...(m.usage || []), record] }));
+    };
+
+    const handleUpscaleImage = async (messageId: string, image: string) => {
+        try {
+            const upscaled = await upscaleImage(await urlToFile(await resolveMediaUrl(image), 'image'));
+            updateMessage(messageId, m => ({
+                ...m,
+                generatedImages: [...(m.generatedImages || []), upscaled],
+                generatedImage: upscaled,
+                usage: [...(m.usage || []), { model: ModelId.GEMINI_PRO_IMAGE, images: 1 }],
+            }));
+        } catch (error: any) {
+            console.error("Failed to upscale image:", error);
+            alert(`Sorry, could not upscale this image. ${error.message}`);
+        }
+    };
+
+    const handleDownloadImage = async (image: string) => {
+        try {
+            const blob = await (await fetch(await resolveMediaUrl(image))).blob();
+            const extension = blob.type.split('/')[1] || 'png';
+            downloadFile(blob, `ripoai-image-${Date.now()}.${extension}`, blob.type);
+        } catch (error) {
+            console.error("Failed to download image:", error);
+            alert("Sorry, this image is no longer available.");
+        }
+    };
+
+    // Canvas replies in thread order. Each is one version of the conversation's project.
+    const codeVersions = messages.flatMap((m, index) => {
+        const files = m.role === 'model' ? getCodeFiles(m) : undefined;
+        return files ? [{ index, files }] : [];
+    });
+
+    const codeVersionAt = (index: number): ChatMessageProps['codeVersion'] => {
+        const position = codeVersions.findIndex(v => v.index === index);
+        if (position === -1) return undefined;
+        const { files } = codeVersions[position];
+        const isLatest = position === codeVersions.length - 1;
+        return {
+            number: position + 1,
+            previousFiles: codeVersions[position - 1]?.files,
+            onRestore: isLatest ? undefined : () => handleRestoreCodeVersion(position + 1, files),
+            // Fixes build on the latest version, so only its preview offers them.
+            onFixErrors: isLatest ? handleFixCodeErrors : undefined,
+        };
+    };
+
+    // The recording a transcript was made from: the attachment on the user turn it answers.
+    const transcriptMediaFor = (index: number): ChatMessageProps['transcriptMedia'] => {
+        const source = messages.slice(0, index).reverse().find(m => m.role === 'user');
+        if (source?.audioSrc) return { src: source.audioSrc, kind: 'audio' };
+        if (source?.video) return { src: source.video, kind: 'video' };
+        return undefined;
+    };
+
+    // Sends the errors the latest preview logged back as a new Canvas turn; the reply is the fixed version.
+    const handleFixCodeErrors = async (errors: string[]) => {
+        if (isLoading || errors.length === 0) return;
+        // Errors thrown in a loop (an animation frame, a timer) repeat; each one is enough once.
+        const prompt = `Fix these errors from the preview console:\n${[...new Set(errors)].map(error => `- ${error}`).join('\n')}`;
+        const history = messagesRef.current;
+        const signal = startGeneration();
+        const userMessage: Message = { id: Date.now().toString(), role: 'user', text: prompt, tool: 'canvas' };
+        const newMessages = [...history, userMessage];
+        setMessages(newMessages);
+        try {
+            await generateResponse(history, reply => [...newMessages, reply], 'canvas', prompt, {}, signal);
+        } finally {
+            finishGeneration(signal);
+        }
+    };
+
+    // Restoring adds the old version as the newest reply, so the next prompt edits it and the
+    // versions in between stay in the history.
+    const handleRestoreCodeVersion = (versionNumber: number, files: CodeFile[]) => {
+        const restored: Message = { id: Date.now().toString() + '-restore', role: 'model', text: `Restored version ${versionNumber} of the project.`, codeFiles: files };
+        onUpdateConversation(conversation.id, [...messagesRef.current, restored]);
+    };
+
+    // Opens the image editor on a generated image. An image from an earlier editor session continues
+    // that session; any other image starts a new one, saved as its own reply once the first edit lands.
+    const handleOpenImageEditor = (message: Message, image: string) => {
+        const stepIndex = message.editHistory?.findIndex(step => step.image === image) ?? -1;
+        if (message.editHistory && stepIndex !== -1) {
+            setEditorSession({ messageId: message.id, steps: message.editHistory, index: stepIndex });
+        } else {
+            setEditorSession({ messageId: Date.now().toString() + '-edit', steps: [{ image, prompt: '' }], index: 0 });
+        }
+    };
+
+    const handleImageEditorChange = (steps: ImageEditStep[], index: number) => {
+        if (!editorSession) return;
+        setEditorSession({ ...editorSession, steps, index });
+        if (steps.length < 2) return;
+        const edits = steps.slice(1);
+        const fields: Partial<Message> = {
+            text: `Edited image: ${edits.map(step => step.prompt).join(' → ')}`,
+            generatedImage: steps[index].image,
+            editHistory: steps,
+            usage: [{ model: ModelId.GEMINI_FLASH_IMAGE, images: edits.length }],
+        };
+        if (messagesRef.current.some(m => m.id === editorSession.messageId)) {
+            updateMessage(editorSession.messageId, m => ({ ...m, ...fields }));
+        } else {
+            onUpdateConversation(conversation.id, [...messagesRef.current, { id: editorSession.messageId, role: 'model', ...fields } as Message]);
         }
     };
     
+    // Chat takes several images and documents at once; every other tool takes one image, video or recording.
+    const handleAttachFiles = async (files: File[]) => {
+        const errors: string[] = [];
+        const accepted = files.filter(file => {
+            const error = validateAttachment(file);
+            if (error) errors.push(error);
+            return !error;
+        });
+        const room = MAX_ATTACHMENTS - attachedFiles.length;
+        if (accepted.length > room) errors.push(`Up to ${MAX_ATTACHMENTS} files can be attached to one message.`);
+        let totalSize = attachedFiles.reduce((total, { file }) => total + file.size, 0);
+        const fitting = accepted.slice(0, Math.max(0, room)).filter(file => {
+            if (totalSize + file.size > MAX_TOTAL_ATTACHMENT_SIZE) return false;
+            totalSize += file.size;
+            return true;
+        });
+        if (fitting.length < Math.min(accepted.length, Math.max(0, room))) {
+            errors.push(`The files attached to one message can add up to ${formatFileSize(MAX_TOTAL_ATTACHMENT_SIZE)}.`);
+        }
+        if (errors.length) alert(errors.join('\n'));
+        const added = await Promise.all(fitting.map(async file => ({ file, attachment: await createAttachment(file) })));
+        setAttachedFiles(prev => [...prev, ...added].slice(0, MAX_ATTACHMENTS));
+    };
+
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (activeTool === 'chat') {
+            handleAttachFiles(Array.from(e.target.files || []));
+            e.target.value = ''; // lets the same file be picked again after removing it
+            return;
+        }
         if (e.target.files && e.target.files[0]) {
             const file = e.target.files[0];
             resetInputs(); // Clear other inputs
@@ -588,6 +1720,9 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversation, onUpdateCon
             } else if (file.type.startsWith('video/')) {
                 setVideoFile(file);
                 fileToDataUrl(file).then(setVideoUrl);
+            } else if (file.type.startsWith('audio/')) {
+                setAudioFile(file);
+                fileToDataUrl(file).then(setAudioUrl);
             }
         }
     };
@@ -609,20 +1744,15 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversation, onUpdateCon
                 const audioFile = new File([audioBlob], "recording.webm", { type: "audio/webm" });
                 const audioUrl = URL.createObjectURL(audioBlob);
 
-                const userMessage: Message = { id: Date.now().toString(), role: 'user', text: 'Audio recording', audioSrc: audioUrl };
+                const userMessage: Message = { id: Date.now().toString(), role: 'user', text: 'Audio recording', audioSrc: audioUrl, tool: 'audio-transcription' };
                 const newMessages = [...messages, userMessage];
                 setMessages(newMessages);
-                setIsLoading(true);
+                const signal = startGeneration();
 
                 try {
-                    const transcription = await transcribeAudio(audioFile);
-                    const modelMessage: Message = { id: Date.now().toString() + '-model', role: 'model', text: transcription };
-                    onUpdateConversation(conversation.id, [...newMessages, modelMessage]);
-                } catch (error: any) {
-                    const errorMessage: Message = { id: Date.now().toString(), role: 'model', text: '', error: error.message };
-                    onUpdateConversation(conversation.id, [...newMessages, errorMessage]);
+                    await generateResponse(messages, reply => [...newMessages, reply], 'audio-transcription', '', { audio: audioFile }, signal);
                 } finally {
-                    setIsLoading(false);
+                    finishGeneration(signal);
                     // Clean up stream tracks
                     stream.getTracks().forEach(track => track.stop());
                 }
@@ -648,14 +1778,55 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversation, onUpdateCon
     }, [conversation.messages]);
 
     const currentTool = CHAT_TOOLS.find(t => t.id === activeTool) || CHAT_TOOLS[0];
-    const fileInputAccept = activeTool === 'video-analysis' ? 'video/*' : 'image/*';
+    const summaryEnd = findSummaryEnd(messages, conversation.contextSummary);
+    const contextTokens = estimateTextTokens(conversation.systemInstruction)
+        + estimateTextTokens(summaryEnd === -1 ? '' : conversation.contextSummary?.text)
+        + estimateHistoryTokens(messages.slice(summaryEnd + 1));
+    const fileInputAccept = activeTool === 'chat' ? ATTACHMENT_ACCEPT : activeTool === 'video-analysis' ? 'video/*' : activeTool === 'audio-transcription' ? 'audio/*,video/*' : 'image/*';
 
     return (
         <div className="flex flex-col h-full max-w-4xl mx-auto w-full px-4">
             <div className="flex-1 overflow-y-auto pt-6">
-                {messages.map(msg => <ChatMessage key={msg.id} message={msg} />)}
+                {messages.map((msg, index) => (
+                    <React.Fragment key={msg.id}>
+                        <ChatMessage
+                            message={msg}
+                            avatar={conversation.persona?.avatar}
+                            provider={provider}
+                            priceTable={priceTable}
+                            isHighlighted={msg.id === highlightedMessageId}
+                            isBusy={isLoading}
+                            onEdit={msg.role === 'user' && msg.tool !== 'audio-transcription' && !msg.audioSrc ? (text) => handleEditMessage(index, text) : undefined}
+                            onRegenerate={msg.role === 'model' && messages.slice(0, index).some(m => m.role === 'user') ? () => handleRegenerateMessage(index) : undefined}
+                            onSwitchBranch={(versionIndex) => handleSwitchBranch(index, versionIndex)}
+                            onRecordUsage={(record) => handleRecordUsage(msg.id, record)}
+                            imageActions={{
+                                onSelect: (image) => updateMessage(msg.id, m => ({ ...m, generatedImage: image })),
+                                onUpscale: (image) => handleUpscaleImage(msg.id, image),
+                                onDownload: handleDownloadImage,
+                                onEdit: (image) => handleOpenImageEditor(msg, image),
+                            }}
+                            codeVersion={codeVersionAt(index)}
+                            previewCapabilities={conversation.previewCapabilities}
+                            onPreviewCapabilitiesChange={onPreviewCapabilitiesChange}
+                            transcriptMedia={msg.transcript ? transcriptMediaFor(index) : undefined}
+                            speechVoice={speechVoice}
+                            onSpeechVoiceChange={onSpeechVoiceChange}
+                            isSummarized={index <= summaryEnd}
+                        />
+                        {index === summaryEnd && <ContextSummaryNotice summary={conversation.contextSummary!} messageCount={summaryEnd + 1} />}
+                    </React.Fragment>
+                ))}
                 <div ref={endOfMessagesRef} />
             </div>
+            {editorSession && (
+                <ImageEditor
+                    steps={editorSession.steps}
+                    currentIndex={editorSession.index}
+                    onChange={handleImageEditorChange}
+                    onClose={() => setEditorSession(null)}
+                />
+            )}
             <div className="py-6 w-full">
                 <GlassCard className="p-2 relative">
                     <Popover isOpen={isToolPopoverOpen} onClose={() => setIsToolPopoverOpen(false)} triggerRef={toolButtonRef}>
@@ -668,15 +1839,29 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversation, onUpdateCon
                           ))}
                         </div>
                     </Popover>
-                    {(imageUrl || videoUrl) && (
+                    {(imageUrl || videoUrl || audioUrl) && (
                         <div className="p-2 relative w-fit">
                             {imageUrl && <img src={imageUrl} alt="upload preview" className="max-h-40 rounded-lg"/>}
                             {videoUrl && <video src={videoUrl} controls className="max-h-40 rounded-lg" />}
+                            {audioUrl && <audio src={audioUrl} controls className="mr-4" />}
                             <button onClick={resetInputs} className="absolute -top-1 -right-1 bg-black/50 rounded-full p-1 text-white hover:bg-black/80">
                                 <XIcon className="h-4 w-4"/>
                             </button>
                         </div>
                     )}
+                    {attachedFiles.length > 0 && (
+                        <div className="p-2 flex flex-wrap gap-2">
+                            {attachedFiles.map(({ attachment }, index) => (
+                                <AttachmentChip
+                                    key={index}
+                                    attachment={attachment}
+                                    onRemove={() => setAttachedFiles(prev => prev.filter((_, i) => i !== index))}
+                                    className="bg-black/5 dark:bg-white/10 text-gray-700 dark:text-gray-200"
+                                />
+                            ))}
+                        </div>
+                    )}
+                    {activeTool === 'image-gen' && <ImageGenPanel settings={imageSettings} onChange={setImageSettings} />}
                      {activeTool === 'video-gen' && (
                         <div className="p-2 flex items-center gap-4">
                             <span className="text-sm font-medium text-gray-600 dark:text-gray-300">Aspect Ratio:</span>
@@ -703,71 +1888,119 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ conversation, onUpdateCon
                         )}
                         {activeTool === 'audio-transcription' && (
                             <div className="flex-1 flex items-center justify-center h-10 text-gray-500 text-sm">
-                                {isRecording ? "Recording..." : "Click the mic to record"}
+                                {isRecording ? "Recording..." : audioFile || videoFile ? (audioFile || videoFile)!.name : "Click the mic to record, or attach an audio or video file"}
                             </div>
                         )}
                         
-                        {activeTool !== 'audio-transcription' && (
+                        {!isRecording && (
                             <label className="p-2 cursor-pointer text-gray-500 dark:text-gray-400 hover:text-slate-800 dark:hover:text-white">
                                 <PaperclipIcon className="h-6 w-6"/>
-                                <input ref={fileInputRef} type="file" accept={fileInputAccept} className="hidden" onChange={handleFileChange}/>
+                                <input ref={fileInputRef} type="file" accept={fileInputAccept} multiple={activeTool === 'chat'} className="hidden" onChange={handleFileChange}/>
                             </label>
                         )}
                         
-                        {activeTool === 'audio-transcription' ? (
+                        {isLoading ? (
+                            <Button onClick={handleStopGeneration} className="rounded-full w-10 h-10 p-2 aspect-square shrink-0 bg-red-500 hover:bg-red-400" title="Stop generating">
+                                <StopCircleIcon className="h-5 w-5" />
+                            </Button>
+                        ) : activeTool === 'audio-transcription' && !audioFile && !videoFile ? (
                             <Button onClick={isRecording ? handleStopRecording : handleStartRecording} className={`rounded-full w-10 h-10 p-2 aspect-square shrink-0 ${isRecording ? 'bg-red-500 animate-pulse' : ''}`}>
                                 {isRecording ? <StopCircleIcon className="h-5 w-5" /> : <MicIcon className="h-5 w-5" />}
                             </Button>
                         ) : (
-                            <Button onClick={handleSendMessage} disabled={isLoading} className="rounded-full w-10 h-10 p-2 aspect-square shrink-0">
-                                {isLoading ? <Spinner /> : <SendIcon className="h-5 w-5" />}
+                            <Button onClick={handleSendMessage} className="rounded-full w-10 h-10 p-2 aspect-square shrink-0">
+                                <SendIcon className="h-5 w-5" />
                             </Button>
                         )}
 
                     </div>
                 </GlassCard>
+                <div className="flex items-center justify-end gap-1 mt-2 text-xs text-gray-500 dark:text-gray-400">
+                    <span className={contextTokens > contextBudget ? 'text-amber-500' : ''} title="Estimated tokens sent with the next message. Past the budget, older messages are summarized.">
+                        Context ~{formatTokenCount(contextTokens)} of
+                    </span>
+                    <select
+                        value={contextBudget}
+                        onChange={e => onContextBudgetChange(Number(e.target.value))}
+                        className="bg-transparent border-none p-0 pr-1 text-xs focus:ring-0 cursor-pointer"
+                        title="Context budget"
+                    >
+                        {CONTEXT_BUDGET_OPTIONS.map(option => <option key={option} value={option}>{formatTokenCount(option)} tokens</option>)}
+                    </select>
+                </div>
             </div>
         </div>
     );
 };
 
-const CodePreview: React.FC<{ code: string }> = ({ code }) => {
-    const [view, setView] = useState<'preview' | 'code'>('preview');
-    const [copied, setCopied] = useState(false);
-
-    const handleCopy = () => {
-        navigator.clipboard.writeText(code);
-        setCopied(true);
-        setTimeout(() => setCopied(false), 2000);
-    };
+const formatTokenCount = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(tokens >= 10_000 ? 0 : 1)}k` : String(tokens);
 
+// ContextSummaryNotice: Marks where the summarized part of a conversation ends
+const ContextSummaryNotice: React.FC<{ summary: ContextSummary; messageCount: number }> = ({ summary, messageCount }) => {
+    const [isExpanded, setIsExpanded] = useState(false);
     return (
-        <div className="mt-2 bg-slate-900 rounded-lg overflow-hidden border border-slate-700 max-w-full">
-            <div className="flex justify-between items-center px-4 py-1 bg-slate-950/70">
-                <div className="flex gap-2">
-                    <button onClick={() => setView('preview')} className={`text-xs px-2 py-1 rounded ${view === 'preview' ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-slate-700'}`}>Preview</button>
-                    <button onClick={() => setView('code')} className={`text-xs px-2 py-1 rounded ${view === 'code' ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-slate-700'}`}>Code</button>
-                </div>
-                <Button variant="ghost" onClick={handleCopy} className="text-xs px-2 py-1">
-                    {copied ? <CheckIcon className="h-4 w-4"/> : <CopyIcon className="h-4 w-4"/>} Copy
-                </Button>
+        <div className="my-6 text-xs text-gray-500 dark:text-gray-400">
+            <div className="flex items-center gap-3">
+                <div className="flex-1 border-t border-dashed border-black/20 dark:border-white/20" />
+                <button onClick={() => setIsExpanded(e => !e)} className="hover:text-slate-800 dark:hover:text-white">
+                    {messageCount} earlier {messageCount === 1 ? 'message is' : 'messages are'} summarized · newer messages are sent in full
+                    {isExpanded ? ' · Hide summary' : ' · Show summary'}
+                </button>
+                <div className="flex-1 border-t border-dashed border-black/20 dark:border-white/20" />
             </div>
-            {view === 'preview' ? (
-                <iframe srcDoc={code} title="Generated Code Preview" className="w-full h-96 bg-white" sandbox="allow-scripts allow-same-origin"/>
-            ) : (
-                <pre className="p-4 text-sm overflow-x-auto max-h-96"><code className="text-white font-mono">{code}</code></pre>
+            {isExpanded && (
+                <GlassCard className="mt-3 p-3 text-sm text-gray-700 dark:text-gray-300">
+                    <Markdown text={summary.text} />
+                </GlassCard>
             )}
         </div>
     );
 };
 
+interface ChatMessageProps {
+    message: Message;
+    avatar?: string; // persona emoji shown instead of the bot icon
+    provider: ModelProvider;
+    priceTable: PriceTable;
+    isHighlighted?: boolean;
+    isBusy?: boolean;
+    onEdit?: (text: string) => void;
+    onRegenerate?: () => void;
+    onSwitchBranch?: (versionIndex: number) => void;
+    onRecordUsage?: (record: UsageRecord) => void;
+    isSummarized?: boolean; // replaced by the conversation's context summary in chat requests
+    imageActions?: Pick<React.ComponentProps<typeof ImageGrid>, 'onSelect' | 'onUpscale' | 'onDownload' | 'onEdit'>;
+    codeVersion?: { number: number; previousFiles?: CodeFile[]; onRestore?: () => void; onFixErrors?: (errors: string[]) => void }; // where a code reply sits in the Canvas project
+    previewCapabilities?: PreviewCapabilities;
+    onPreviewCapabilitiesChange?: (capabilities: PreviewCapabilities) => void;
+    transcriptMedia?: React.ComponentProps<typeof Transcript>['media'];
+    speechVoice?: string;
+    onSpeechVoiceChange?: (voice: string) => void;
+}
+
+// A short "1,234 tokens · ~$0.0012" caption for the usage recorded on a message.
+const describeMessageUsage = (usage: UsageRecord[], prices: PriceTable): string | null => {
+    const totals = summarizeUsage(usage, prices);
+    const tokens = totalTokens(totals);
+    const isPriced = totals.unpricedModels.length < new Set(usage.map(r => r.model)).size;
+    return [
+        tokens > 0 && `${tokens.toLocaleString()} tokens`,
+        isPriced && `~${formatCost(totals.cost)}`,
+    ].filter(Boolean).join(' · ') || null;
+};
+
 // ChatMessage: Renders a single message bubble
-const ChatMessage: React.FC<{ message: Message }> = ({ message }) => {
+const ChatMessage: React.FC<ChatMessageProps> = ({ message, avatar, provider, priceTable, isHighlighted, isBusy, onEdit, onRegenerate, onSwitchBranch, onRecordUsage, isSummarized, imageActions, codeVersion, previewCapabilities, onPreviewCapabilitiesChange, transcriptMedia, speechVoice, onSpeechVoiceChange }) => {
     const isModel = message.role === 'model';
+    const codeFiles = isModel ? getCodeFiles(message) : undefined;
     const [copied, setCopied] = useState(false);
-    const [isGeneratingAudio, setIsGeneratingAudio] = useState(false);
+    const [isSpeechOpen, setIsSpeechOpen] = useState(false);
+    const [isEditing, setIsEditing] = useState(false);
+    const [draft, setDraft] = useState(message.text);
 
-    const audioContextRef = useRef<AudioContext | null>(null);
+    const versionCount = (message.branches?.length ?? 0) + 1;
+    const versionIndex = message.branchIndex ?? 0;
+    const usageCaption = isModel && message.usage ? describeMessageUsage(message.usage, priceTable) : null;
 
     const handleCopy = (text: string) => {
         navigator.clipboard.writeText(text);
@@ -775,44 +2008,84 @@ const ChatMessage: React.FC<{ message: Message }> = ({ message }) => {
         setTimeout(() => setCopied(false), 2000);
     };
 
-    const handlePlayAudio = async (text: string) => {
-        if (!text) return;
-        setIsGeneratingAudio(true);
-        try {
-            const base64Audio = await generateSpeech(text);
-            if (!audioContextRef.current) {
-                audioContextRef.current = new (window.AudioContext || window.webkitAudioContext)({ sampleRate: 24000 });
-            }
-            const audioBuffer = await decodeAudioData(decode(base64Audio), audioContextRef.current, 24000, 1);
-            const source = audioContextRef.current.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(audioContextRef.current.destination);
-            source.start();
-        } catch (error) {
-            console.error("Failed to play audio:", error);
-            alert("Sorry, could not generate audio for this message.");
-        } finally {
-            setIsGeneratingAudio(false);
-        }
+    const handleSubmitEdit = () => {
+        setIsEditing(false);
+        if (onEdit && draft.trim() && draft !== message.text) onEdit(draft);
     };
 
+    const actionButtonClass = "p-1.5 bg-gray-300 dark:bg-white/10 rounded-full text-gray-600 dark:text-gray-300 disabled:opacity-50";
+
     return (
-        <div className={`flex items-start gap-4 my-4`}>
-            <div className={`p-2 rounded-full shrink-0 ${isModel ? 'bg-indigo-500' : 'bg-gray-600'}`}>
-                {isModel ? <BotIcon className="h-5 w-5 text-white" /> : <UserIcon className="h-5 w-5 text-white" />}
-            </div>
-            <div className="max-w-xl group relative w-full">
-                <div className={`px-4 py-3 rounded-2xl w-fit ${isModel ? 'bg-gray-200 dark:bg-gray-800' : 'bg-indigo-600 text-white'}`}>
-                    {message.image && <img src={message.image} alt="user upload" className="max-w-xs rounded-lg mb-2"/>}
-                    {message.video && <video src={message.video} controls className="max-w-xs rounded-lg mb-2" />}
-                    {message.audioSrc && <audio src={message.audioSrc} controls className="my-2" />}
+        <div id={`message-${message.id}`} className={`flex items-start gap-4 my-4`}>
+            {isModel && avatar ? (
+                <div className="h-9 w-9 rounded-full shrink-0 bg-gray-200 dark:bg-gray-800 flex items-center justify-center text-lg">{avatar}</div>
+            ) : (
+                <div className={`p-2 rounded-full shrink-0 ${isModel ? 'bg-indigo-500' : 'bg-gray-600'}`}>
+                    {isModel ? <BotIcon className="h-5 w-5 text-white" /> : <UserIcon className="h-5 w-5 text-white" />}
+                </div>
+            )}
+            <div className={`max-w-xl group relative w-full ${isSummarized ? 'opacity-60' : ''}`} title={isSummarized ? 'Summarized: no longer sent to the model in full' : undefined}>
+                <div className={`px-4 py-3 rounded-2xl w-fit transition-shadow ${isModel ? 'bg-gray-200 dark:bg-gray-800' : 'bg-indigo-600 text-white'} ${isHighlighted ? 'ring-4 ring-yellow-400/70' : ''}`}>
+                    {message.image && <MediaAsset src={message.image} kind="image" alt="user upload" className="max-w-xs mb-2"/>}
+                    {message.attachments && message.attachments.length > 0 && <MessageAttachments attachments={message.attachments} />}
+                    {message.video && <MediaAsset src={message.video} kind="video" className="max-w-xs mb-2" />}
+                    {message.audioSrc && <MediaAsset src={message.audioSrc} kind="audio" className="my-2" />}
 
+                    {message.toolCalls && message.toolCalls.length > 0 && <ToolSteps calls={message.toolCalls} />}
                     {message.error && <p className="text-red-500 font-semibold">{message.error}</p>}
-                    {message.text && <p className="whitespace-pre-wrap">{message.text}</p>}
+                    {isEditing ? (
+                        <div className="w-96 max-w-full">
+                            <Textarea
+                                autoFocus
+                                value={draft}
+                                onChange={e => setDraft(e.target.value)}
+                                onKeyDown={e => {
+                                    if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSubmitEdit(); }
+                                    if (e.key === 'Escape') setIsEditing(false);
+                                }}
+                                rows={3}
+                                className="bg-white/10 dark:bg-black/20 border-white/30 text-white"
+                            />
+                            <div className="flex justify-end gap-2 mt-2">
+                                <Button variant="ghost" onClick={() => setIsEditing(false)} className="text-xs px-3 py-1 text-white hover:text-white">Cancel</Button>
+                                <Button variant="secondary" onClick={handleSubmitEdit} disabled={!draft.trim()} className="text-xs px-3 py-1 bg-white/20 text-white">Save & Submit</Button>
+                            </div>
+                        </div>
+                    ) : message.transcript ? (
+                        <Transcript segments={message.transcript} media={transcriptMedia} />
+                    ) : (
+                        message.text && (isModel
+                            ? <Markdown text={message.text} />
+                            : <p className="whitespace-pre-wrap">{message.text}</p>)
+                    )}
+                    
+                    {message.truncated && <p className="text-xs italic text-gray-500 dark:text-gray-400 mt-1">Generation stopped.</p>}
                     
-                    {message.generatedImage && <img src={message.generatedImage} alt="generated content" className="max-w-sm rounded-lg mt-2"/>}
-                    {message.generatedVideo && <video src={message.generatedVideo} controls autoPlay loop className="max-w-sm rounded-lg mt-2"/>}
-                    {message.generatedCode && <CodePreview code={message.generatedCode} />}
+                    {message.generatedImages && message.generatedImages.length > 0 && imageActions ? (
+                        <ImageGrid images={message.generatedImages} selected={message.generatedImage} isBusy={isBusy} {...imageActions} />
+                    ) : message.generatedImage && (
+                        <>
+                            <MediaAsset src={message.generatedImage} kind="image" alt="generated content" className="max-w-sm mt-2"/>
+                            {imageActions && (
+                                <Button variant="secondary" onClick={() => imageActions.onEdit(message.generatedImage!)} disabled={isBusy} className="text-xs px-3 py-1 mt-2">
+                                    <EditIcon className="h-3.5 w-3.5" /> {message.editHistory ? `Edit (${message.editHistory.length - 1} steps)` : 'Edit'}
+                                </Button>
+                            )}
+                        </>
+                    )}
+                    {message.generatedVideo && <MediaAsset src={message.generatedVideo} kind="video" autoPlay loop className="max-w-sm mt-2"/>}
+                    {codeFiles && (
+                        <CodePreview
+                            files={codeFiles}
+                            version={codeVersion?.number}
+                            previousFiles={codeVersion?.previousFiles}
+                            onRestore={codeVersion?.onRestore}
+                            onFixErrors={codeVersion?.onFixErrors}
+                            capabilities={previewCapabilities}
+                            onCapabilitiesChange={onPreviewCapabilitiesChange}
+                            isBusy={isBusy}
+                        />
+                    )}
 
                     {message.groundingChunks && message.groundingChunks.length > 0 && (
                         <div className="mt-4 pt-2 border-t border-black/10 dark:border-white/10">
@@ -835,13 +2108,52 @@ const ChatMessage: React.FC<{ message: Message }> = ({ message }) => {
                         </div>
                     )}
                 </div>
-                 {isModel && message.text && (
+                 {!isEditing && ((isModel && message.text) || onEdit || onRegenerate) && (
                     <div className="absolute -top-3 -right-3 flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                         <button onClick={() => handlePlayAudio(message.text)} disabled={isGeneratingAudio} className="p-1.5 bg-gray-300 dark:bg-white/10 rounded-full text-gray-600 dark:text-gray-300">
-                             {isGeneratingAudio ? <Spinner className="h-4 w-4" /> : <Volume2Icon className="h-4 w-4" />}
-                         </button>
-                        <button onClick={() => handleCopy(message.text)} className="p-1.5 bg-gray-300 dark:bg-white/10 rounded-full text-gray-600 dark:text-gray-300">
-                            {copied ? <CheckIcon className="h-4 w-4" /> : <CopyIcon className="h-4 w-4" />}
+                        {isModel && message.text && (
+                            <>
+                                <button onClick={() => setIsSpeechOpen(true)} className={actionButtonClass} title="Read aloud">
+                                    <Volume2Icon className="h-4 w-4" />
+                                </button>
+                                <button onClick={() => handleCopy(message.text)} className={actionButtonClass}>
+                                    {copied ? <CheckIcon className="h-4 w-4" /> : <CopyIcon className="h-4 w-4" />}
+                                </button>
+                            </>
+                        )}
+                        {onRegenerate && (
+                            <button onClick={onRegenerate} disabled={isBusy} className={actionButtonClass} title="Regenerate response">
+                                <RefreshIcon className="h-4 w-4" />
+                            </button>
+                        )}
+                        {onEdit && (
+                            <button onClick={() => { setDraft(message.text); setIsEditing(true); }} disabled={isBusy} className={actionButtonClass} title="Edit message">
+                                <EditIcon className="h-4 w-4" />
+                            </button>
+                        )}
+                    </div>
+                )}
+                {isSpeechOpen && isModel && message.text && (
+                    <SpeechPlayer
+                        provider={provider}
+                        messageId={message.id}
+                        text={message.text}
+                        voice={resolveVoice(provider, speechVoice)}
+                        onVoiceChange={voice => onSpeechVoiceChange?.(voice)}
+                        onSynthesized={() => onRecordUsage?.({ model: provider.models.speech, ttsCharacters: message.text.length })}
+                        onClose={() => setIsSpeechOpen(false)}
+                    />
+                )}
+                {usageCaption && (
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400" title="Estimated from the price table in Usage">{usageCaption}</p>
+                )}
+                {versionCount > 1 && onSwitchBranch && (
+                    <div className="flex items-center gap-1 mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        <button onClick={() => onSwitchBranch(versionIndex - 1)} disabled={isBusy || versionIndex === 0} className="p-0.5 rounded hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-30">
+                            <ChevronLeftIcon className="h-4 w-4" />
+                        </button>
+                        <span>{versionIndex + 1} / {versionCount}</span>
+                        <button onClick={() => onSwitchBranch(versionIndex + 1)} disabled={isBusy || versionIndex === versionCount - 1} className="p-0.5 rounded hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-30">
+                            <ChevronRightIcon className="h-4 w-4" />
                         </button>
                     </div>
                 )}
@@ -0,0 +1,74 @@
+import React from 'react';
+import type { Attachment } from '../types';
+import { describeAttachmentType, formatFileSize } from '../services/attachments';
+import { resolveMediaUrl } from '../services/assets';
+import { MediaAsset } from './MediaAsset';
+import { CodeIcon, FileTextIcon, ImageIcon, XIcon } from './Icons';
+
+type ChipAttachment = Pick<Attachment, 'name' | 'mimeType' | 'size'>;
+
+const chipIcon = (attachment: ChipAttachment) => {
+    const type = describeAttachmentType(attachment);
+    if (type === 'Image') return <ImageIcon className="h-4 w-4 shrink-0" />;
+    if (['PDF', 'Markdown', 'CSV', 'JSON', 'Text'].includes(type)) return <FileTextIcon className="h-4 w-4 shrink-0" />;
+    return <CodeIcon className="h-4 w-4 shrink-0" />;
+};
+
+interface AttachmentChipProps {
+    attachment: ChipAttachment;
+    onOpen?: () => void;
+    onRemove?: () => void;
+    className?: string;
+}
+
+// AttachmentChip: A file's name, type and size, optionally opening or removing it
+export const AttachmentChip: React.FC<AttachmentChipProps> = ({ attachment, onOpen, onRemove, className = '' }) => (
+    <div className={`flex items-center gap-2 max-w-64 rounded-lg px-2 py-1.5 text-xs ${className}`} title={attachment.name}>
+        <button type="button" onClick={onOpen} disabled={!onOpen} className="flex items-center gap-2 min-w-0 text-left disabled:cursor-default">
+            {chipIcon(attachment)}
+            <span className="min-w-0">
+                <span className="block truncate font-medium">{attachment.name}</span>
+                <span className="block opacity-70">{describeAttachmentType(attachment)} · {formatFileSize(attachment.size)}</span>
+            </span>
+        </button>
+        {onRemove && (
+            <button type="button" onClick={onRemove} className="p-0.5 rounded-full shrink-0 hover:bg-black/10 dark:hover:bg-white/10" title="Remove">
+                <XIcon className="h-3.5 w-3.5" />
+            </button>
+        )}
+    </div>
+);
+
+// Opens a stored attachment in a new tab, typed so the browser shows PDFs and text instead of
+// downloading them. Browsers refuse to open data: URLs directly, hence the blob.
+const openAttachment = async (attachment: Attachment) => {
+    try {
+        const blob = await (await fetch(await resolveMediaUrl(attachment.src))).blob();
+        const url = URL.createObjectURL(new Blob([blob], { type: attachment.mimeType }));
+        window.open(url, '_blank', 'noopener');
+        setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (error) {
+        console.error("Could not open attachment:", error);
+        alert(`${attachment.name} is no longer available.`);
+    }
+};
+
+// MessageAttachments: The files sent with a user message; images as thumbnails, the rest as chips
+export const MessageAttachments: React.FC<{ attachments: Attachment[] }> = ({ attachments }) => {
+    const images = attachments.filter(attachment => attachment.mimeType.startsWith('image/'));
+    const files = attachments.filter(attachment => !attachment.mimeType.startsWith('image/'));
+    return (
+        <div className="mb-2 space-y-2">
+            {images.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {images.map((image, index) => <MediaAsset key={index} src={image.src} kind="image" alt={image.name} className="max-w-[10rem]" />)}
+                </div>
+            )}
+            {files.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {files.map((file, index) => <AttachmentChip key={index} attachment={file} onOpen={() => openAttachment(file)} className="bg-white/15" />)}
+                </div>
+            )}
+        </div>
+    );
+};
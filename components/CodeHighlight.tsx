@@ -0,0 +1,104 @@
+import React, { useMemo } from 'react';
+
+// A small regex-based syntax highlighter. It covers the languages Gemini answers with most
+// often and deliberately avoids a full grammar: every token is rendered as text, never as HTML.
+
+type TokenType = 'comment' | 'string' | 'number' | 'keyword' | 'function' | 'tag' | 'attr' | 'plain';
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+    comment: 'text-gray-500 italic',
+    string: 'text-green-400',
+    number: 'text-orange-300',
+    keyword: 'text-purple-400',
+    function: 'text-sky-300',
+    tag: 'text-pink-400',
+    attr: 'text-yellow-300',
+    plain: '',
+};
+
+const KEYWORDS = new Set([
+    // JavaScript / TypeScript
+    'abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default',
+    'delete', 'do', 'else', 'enum', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if', 'implements',
+    'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'of', 'private', 'protected', 'public', 'readonly',
+    'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'type', 'typeof', 'undefined', 'var', 'void',
+    'while', 'yield',
+    // Python
+    'and', 'assert', 'def', 'del', 'elif', 'except', 'global', 'is', 'lambda', 'None', 'nonlocal', 'not', 'or', 'pass',
+    'raise', 'True', 'False', 'with', 'self',
+    // C-family, Go, Rust, Java
+    'bool', 'char', 'double', 'float', 'int', 'long', 'short', 'unsigned', 'struct', 'union', 'goto', 'sizeof', 'final',
+    'package', 'func', 'defer', 'chan', 'range', 'fn', 'impl', 'mut', 'pub', 'trait', 'crate', 'boolean', 'byte',
+    'throws', 'synchronized', 'volatile', 'namespace', 'using',
+]);
+
+const SQL_KEYWORDS = new Set([
+    'select', 'insert', 'update', 'delete', 'into', 'values', 'from', 'where', 'join', 'left', 'right', 'inner', 'outer',
+    'on', 'group', 'by', 'order', 'having', 'limit', 'create', 'table', 'drop', 'alter', 'primary', 'key', 'not', 'null',
+    'set', 'and', 'or', 'as', 'distinct', 'union', 'case', 'when', 'then', 'else', 'end', 'is', 'in', 'like', 'default',
+]);
+
+const HASH_COMMENT_LANGUAGES = new Set(['python', 'py', 'bash', 'sh', 'shell', 'zsh', 'ruby', 'rb', 'yaml', 'yml', 'r', 'perl', 'toml', 'dockerfile', 'makefile']);
+const MARKUP_LANGUAGES = new Set(['html', 'xml', 'svg', 'vue', 'jsx-html']);
+
+const STRING = String.raw`"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|\`(?:\\.|[^\`\\])*\``;
+const NUMBER = String.raw`\b(?:0x[\da-fA-F]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?)\b`;
+const IDENTIFIER = String.raw`[A-Za-z_$][\w$]*`;
+
+const buildPattern = (language: string): RegExp => {
+    if (MARKUP_LANGUAGES.has(language)) {
+        return new RegExp(
+            String.raw`(?<comment><!--[\s\S]*?-->)|(?<tag><\/?[A-Za-z][\w:-]*|\/?>)|(?<string>"[^"]*"|'[^']*')|(?<attr>\b[A-Za-z_:][\w:.-]*(?==))`,
+            'g',
+        );
+    }
+    const comment = HASH_COMMENT_LANGUAGES.has(language)
+        ? String.raw`#.*`
+        : language === 'sql'
+            ? String.raw`--.*|\/\*[\s\S]*?\*\/`
+            : language === 'css' || language === 'scss'
+                ? String.raw`\/\*[\s\S]*?\*\/`
+                : String.raw`\/\/.*|\/\*[\s\S]*?\*\/`;
+    return new RegExp(
+        `(?<comment>${comment})|(?<string>${STRING})|(?<number>${NUMBER})|(?<function>${IDENTIFIER}(?=\\s*\\())|(?<word>${IDENTIFIER})`,
+        'g',
+    );
+};
+
+const tokenize = (code: string, language: string): { type: TokenType; text: string }[] => {
+    const tokens: { type: TokenType; text: string }[] = [];
+    const pattern = buildPattern(language);
+    const isSql = language === 'sql';
+    let lastIndex = 0;
+    for (const match of code.matchAll(pattern)) {
+        const index = match.index ?? 0;
+        if (index > lastIndex) tokens.push({ type: 'plain', text: code.slice(lastIndex, index) });
+        const groups = match.groups || {};
+        let type: TokenType = 'plain';
+        if (groups.comment) type = 'comment';
+        else if (groups.string) type = 'string';
+        else if (groups.number) type = 'number';
+        else if (groups.tag) type = 'tag';
+        else if (groups.attr) type = 'attr';
+        else if (groups.function) type = KEYWORDS.has(groups.function) ? 'keyword' : 'function';
+        else if (groups.word) type = (isSql ? SQL_KEYWORDS.has(groups.word.toLowerCase()) : KEYWORDS.has(groups.word)) ? 'keyword' : 'plain';
+        tokens.push({ type, text: match[0] });
+        lastIndex = index + match[0].length;
+    }
+    if (lastIndex < code.length) tokens.push({ type: 'plain', text: code.slice(lastIndex) });
+    return tokens;
+};
+
+// CodeHighlight: Renders `code` as colored spans for the given language
+export const CodeHighlight: React.FC<{ code: string; language?: string }> = ({ code, language = '' }) => {
+    const tokens = useMemo(() => tokenize(code, language.toLowerCase()), [code, language]);
+    return (
+        <>
+            {tokens.map((token, index) =>
+                token.type === 'plain'
+                    ? <React.Fragment key={index}>{token.text}</React.Fragment>
+                    : <span key={index} className={TOKEN_CLASSES[token.type]}>{token.text}</span>
+            )}
+        </>
+    );
+};
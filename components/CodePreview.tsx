@@ -0,0 +1,274 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { CodeFile, PreviewCapabilities } from '../types';
+import {
+    assembleProject, buildPreviewDocument, diffProjects, getFileLanguage, getPreviewSandbox,
+    DEFAULT_PREVIEW_CAPABILITIES, PREVIEW_MESSAGE_CHANNEL, type ConsoleEntry, type DiffLine,
+} from '../services/canvas';
+import { createZip, downloadFile } from '../utils';
+import { CheckIcon, ChevronDownIcon, ChevronRightIcon, CopyIcon, DownloadIcon, RefreshIcon, SettingsIcon, SparklesIcon, TrashIcon } from './Icons';
+import { Button } from './UI';
+import { CodeHighlight } from './CodeHighlight';
+
+const DIFF_CONTEXT_LINES = 3;
+const MAX_CONSOLE_ENTRIES = 200;
+const MIN_PREVIEW_HEIGHT = 240;
+const MAX_PREVIEW_HEIGHT = 720;
+const DEFAULT_PREVIEW_HEIGHT = 384;
+
+const CAPABILITY_LABELS: [keyof PreviewCapabilities, string, string][] = [
+    ['forms', 'Forms', 'Let the page submit forms'],
+    ['modals', 'Dialogs', 'Let the page use alert(), confirm() and prompt()'],
+    ['network', 'Network', 'Let the page fetch data and load images, styles and scripts from https: URLs'],
+];
+
+const CONSOLE_LEVEL_CLASSES: Record<ConsoleEntry['level'], string> = {
+    log: 'text-gray-200',
+    info: 'text-sky-300',
+    debug: 'text-gray-400',
+    warn: 'bg-yellow-500/10 text-yellow-300',
+    error: 'bg-red-500/10 text-red-300',
+};
+
+// ConsolePanel: What the preview logged, newest last, with the errors highlighted
+const ConsolePanel: React.FC<{
+    entries: ConsoleEntry[];
+    isBusy?: boolean;
+    onClear: () => void;
+    onReload: () => void;
+    onFixErrors?: () => void;
+}> = ({ entries, isBusy, onClear, onReload, onFixErrors }) => {
+    const errorCount = entries.filter(entry => entry.level === 'error').length;
+    const hasErrors = errorCount > 0;
+    const [isOpen, setIsOpen] = useState(false);
+    const endRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (hasErrors) setIsOpen(true);
+    }, [hasErrors]);
+
+    useEffect(() => {
+        endRef.current?.scrollIntoView({ block: 'nearest' });
+    }, [entries.length, isOpen]);
+
+    return (
+        <div className="border-t border-slate-700 text-xs">
+            <div className="flex items-center justify-between px-4 py-1 bg-slate-950/70">
+                <button onClick={() => setIsOpen(open => !open)} className="flex items-center gap-1 text-gray-300">
+                    {isOpen ? <ChevronDownIcon className="h-3.5 w-3.5" /> : <ChevronRightIcon className="h-3.5 w-3.5" />}
+                    Console {entries.length > 0 && <span className="text-gray-500">({entries.length})</span>}
+                    {errorCount > 0 && <span className="ml-1 px-1.5 rounded-full bg-red-500/80 text-white">{errorCount} {errorCount === 1 ? 'error' : 'errors'}</span>}
+                </button>
+                <div className="flex items-center gap-1">
+                    {onFixErrors && errorCount > 0 && (
+                        <Button onClick={onFixErrors} disabled={isBusy} className="text-xs px-2 py-0.5" title="Send the code and these errors back to the model">
+                            <SparklesIcon className="h-3.5 w-3.5" /> Fix errors
+                        </Button>
+                    )}
+                    <Button variant="ghost" onClick={onReload} className="text-xs px-1.5 py-0.5 text-gray-300" title="Reload the preview"><RefreshIcon className="h-3.5 w-3.5" /></Button>
+                    <Button variant="ghost" onClick={onClear} disabled={entries.length === 0} className="text-xs px-1.5 py-0.5 text-gray-300" title="Clear the console"><TrashIcon className="h-3.5 w-3.5" /></Button>
+                </div>
+            </div>
+            {isOpen && (
+                <div className="max-h-40 overflow-y-auto font-mono">
+                    {entries.length === 0 ? (
+                        <p className="px-4 py-2 text-gray-500 font-sans">Nothing logged yet.</p>
+                    ) : entries.map((entry, index) => (
+                        <pre key={index} className={`px-4 py-0.5 whitespace-pre-wrap break-words border-b border-slate-800 ${CONSOLE_LEVEL_CLASSES[entry.level]}`}>{entry.text}</pre>
+                    ))}
+                    <div ref={endRef} />
+                </div>
+            )}
+        </div>
+    );
+};
+
+const DIFF_LINE_CLASSES: Record<DiffLine['type'], string> = {
+    same: 'text-gray-400',
+    added: 'bg-green-500/15 text-green-300',
+    removed: 'bg-red-500/15 text-red-300 line-through decoration-red-400/40',
+};
+const DIFF_LINE_MARKERS: Record<DiffLine['type'], string> = { same: ' ', added: '+', removed: '-' };
+
+// Unchanged stretches longer than the context around a change collapse to a "N unchanged lines" row.
+const collapseUnchanged = (lines: DiffLine[]): (DiffLine | { skipped: number })[] => {
+    const rows: (DiffLine | { skipped: number })[] = [];
+    let run: DiffLine[] = [];
+    const flush = (isEnd: boolean) => {
+        const keepStart = rows.length === 0 ? 0 : DIFF_CONTEXT_LINES;
+        const keepEnd = isEnd ? 0 : DIFF_CONTEXT_LINES;
+        if (run.length > keepStart + keepEnd + 1) {
+            rows.push(...run.slice(0, keepStart), { skipped: run.length - keepStart - keepEnd }, ...run.slice(run.length - keepEnd));
+        } else {
+            rows.push(...run);
+        }
+        run = [];
+    };
+    for (const line of lines) {
+        if (line.type === 'same') {
+            run.push(line);
+        } else {
+            flush(false);
+            rows.push(line);
+        }
+    }
+    flush(true);
+    return rows;
+};
+
+// ProjectDiff: What changed in each file since the previous version
+const ProjectDiff: React.FC<{ before: CodeFile[]; after: CodeFile[] }> = ({ before, after }) => {
+    const diffs = useMemo(() => diffProjects(before, after).filter(diff => diff.status !== 'unchanged'), [before, after]);
+    if (diffs.length === 0) return <p className="p-4 text-sm text-gray-400">No changes from the previous version.</p>;
+    return (
+        <div className="max-h-96 overflow-auto text-xs font-mono">
+            {diffs.map(diff => (
+                <div key={diff.name}>
+                    <p className="sticky top-0 px-4 py-1 bg-slate-800 text-gray-200 font-sans font-semibold">
+                        {diff.name} <span className="font-normal text-gray-400">{diff.status === 'changed' ? '' : `(${diff.status})`}</span>
+                    </p>
+                    {collapseUnchanged(diff.lines).map((row, index) => 'skipped' in row ? (
+                        <p key={index} className="px-4 py-0.5 text-gray-500 italic font-sans">⋯ {row.skipped} unchanged lines</p>
+                    ) : (
+                        <pre key={index} className={`px-4 whitespace-pre-wrap ${DIFF_LINE_CLASSES[row.type]}`}>{DIFF_LINE_MARKERS[row.type]} {row.text}</pre>
+                    ))}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+interface CodePreviewProps {
+    files: CodeFile[];
+    version?: number; // position in the conversation's Canvas project
+    previousFiles?: CodeFile[]; // the version before this one, for the changes view
+    onRestore?: () => void; // makes this version the latest again; only offered on older versions
+    onFixErrors?: (errors: string[]) => void; // asks for a new version that fixes the logged errors
+    capabilities?: PreviewCapabilities; // set per project; see services/canvas.ts
+    onCapabilitiesChange?: (capabilities: PreviewCapabilities) => void;
+    isBusy?: boolean;
+}
+
+// CodePreview: Renders a Canvas project in a live preview with its console, a code view per file
+// and the changes from the previous version
+export const CodePreview: React.FC<CodePreviewProps> = ({ files, version, previousFiles, onRestore, onFixErrors, capabilities = DEFAULT_PREVIEW_CAPABILITIES, onCapabilitiesChange, isBusy }) => {
+    const [view, setView] = useState<'preview' | 'code' | 'changes'>('preview');
+    const [activeFileName, setActiveFileName] = useState(files[0]?.name);
+    const [copied, setCopied] = useState(false);
+    const [consoleEntries, setConsoleEntries] = useState<ConsoleEntry[]>([]);
+    const [reloadCount, setReloadCount] = useState(0);
+    const [frameHeight, setFrameHeight] = useState(DEFAULT_PREVIEW_HEIGHT);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const frameRef = useRef<HTMLIFrameElement>(null);
+    const html = useMemo(() => assembleProject(files), [files]);
+    const previewHtml = useMemo(() => buildPreviewDocument(html, capabilities), [html, capabilities]);
+    const sandbox = getPreviewSandbox(capabilities);
+    const activeFile = files.find(file => file.name === activeFileName) || files[0];
+
+    // Only messages from this preview's own frame count; other previews in the chat post on the
+    // same channel. The frame's origin is opaque, which the browser reports as "null".
+    useEffect(() => {
+        const handleMessage = (event: MessageEvent) => {
+            if (event.source !== frameRef.current?.contentWindow || event.origin !== 'null' || event.data?.channel !== PREVIEW_MESSAGE_CHANNEL) return;
+            if (event.data.type === 'console') {
+                const entry: ConsoleEntry = { level: event.data.level, text: String(event.data.text) };
+                setConsoleEntries(prev => [...prev, entry].slice(-MAX_CONSOLE_ENTRIES));
+            } else if (event.data.type === 'resize' && typeof event.data.height === 'number') {
+                setFrameHeight(Math.min(MAX_PREVIEW_HEIGHT, Math.max(MIN_PREVIEW_HEIGHT, event.data.height)));
+            }
+        };
+        window.addEventListener('message', handleMessage);
+        return () => window.removeEventListener('message', handleMessage);
+    }, []);
+
+    useEffect(() => setConsoleEntries([]), [previewHtml, sandbox, reloadCount]);
+
+    const handleDownloadZip = () => downloadFile(createZip(files), `ripoai-project-${Date.now()}.zip`, 'application/zip');
+    const handleDownloadHtml = () => downloadFile(html, `ripoai-project-${Date.now()}.html`, 'text/html');
+
+    const handleCopy = () => {
+        navigator.clipboard.writeText(view === 'code' ? activeFile.content : html);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    const tabClass = (isActive: boolean) => `text-xs px-2 py-1 rounded ${isActive ? 'bg-indigo-600 text-white' : 'text-gray-300 hover:bg-slate-700'}`;
+
+    return (
+        <div className="mt-2 bg-slate-900 rounded-lg overflow-hidden border border-slate-700 max-w-full">
+            <div className="flex justify-between items-center px-4 py-1 bg-slate-950/70">
+                <div className="flex items-center gap-2">
+                    <button onClick={() => setView('preview')} className={tabClass(view === 'preview')}>Preview</button>
+                    <button onClick={() => setView('code')} className={tabClass(view === 'code')}>Code</button>
+                    {previousFiles && <button onClick={() => setView('changes')} className={tabClass(view === 'changes')}>Changes</button>}
+                    {version !== undefined && <span className="text-xs text-gray-400 ml-2">Version {version}</span>}
+                </div>
+                <div className="flex items-center gap-1">
+                    {onCapabilitiesChange && (
+                        <Button variant="ghost" onClick={() => setIsSettingsOpen(open => !open)} className={`text-xs px-2 py-1 ${isSettingsOpen ? 'text-indigo-300' : ''}`} title="What the preview is allowed to do">
+                            <SettingsIcon className="h-4 w-4"/>
+                        </Button>
+                    )}
+                    {onRestore && (
+                        <Button variant="ghost" onClick={onRestore} disabled={isBusy} className="text-xs px-2 py-1 text-gray-200" title="Make this version the latest again">
+                            <RefreshIcon className="h-4 w-4"/> Restore
+                        </Button>
+                    )}
+                    <Button variant="ghost" onClick={handleCopy} className="text-xs px-2 py-1">
+                        {copied ? <CheckIcon className="h-4 w-4"/> : <CopyIcon className="h-4 w-4"/>} Copy
+                    </Button>
+                    <Button variant="ghost" onClick={handleDownloadZip} className="text-xs px-2 py-1" title="Download every file as a ZIP archive">
+                        <DownloadIcon className="h-4 w-4"/> ZIP
+                    </Button>
+                    <Button variant="ghost" onClick={handleDownloadHtml} className="text-xs px-2 py-1" title="Download the project as one HTML file">
+                        <DownloadIcon className="h-4 w-4"/> HTML
+                    </Button>
+                </div>
+            </div>
+            {isSettingsOpen && onCapabilitiesChange && (
+                <div className="flex flex-wrap items-center gap-4 px-4 py-2 text-xs text-gray-300 bg-slate-950/40 border-b border-slate-700">
+                    <span className="text-gray-400">Allow this project's previews:</span>
+                    {CAPABILITY_LABELS.map(([key, label, description]) => (
+                        <label key={key} className="flex items-center gap-1.5 cursor-pointer" title={description}>
+                            <input type="checkbox" checked={capabilities[key]} onChange={e => onCapabilitiesChange({ ...capabilities, [key]: e.target.checked })} />
+                            {label}
+                        </label>
+                    ))}
+                </div>
+            )}
+            {/* The preview stays mounted in the other views so its console keeps running. Changing the
+                sandbox only takes effect on a fresh frame, hence the key. */}
+            <div className={view === 'preview' ? '' : 'hidden'}>
+                <iframe
+                    key={`${reloadCount}-${sandbox}`}
+                    ref={frameRef}
+                    srcDoc={previewHtml}
+                    title="Generated Code Preview"
+                    className="w-full bg-white"
+                    style={{ height: frameHeight }}
+                    sandbox={sandbox}
+                />
+                <ConsolePanel
+                    entries={consoleEntries}
+                    isBusy={isBusy}
+                    onClear={() => setConsoleEntries([])}
+                    onReload={() => setReloadCount(count => count + 1)}
+                    onFixErrors={onFixErrors && (() => onFixErrors(consoleEntries.filter(entry => entry.level === 'error').map(entry => entry.text)))}
+                />
+            </div>
+            {view === 'changes' && previousFiles ? (
+                <ProjectDiff before={previousFiles} after={files} />
+            ) : view === 'code' && (
+                <>
+                    {files.length > 1 && (
+                        <div className="flex gap-1 px-4 pt-2">
+                            {files.map(file => (
+                                <button key={file.name} onClick={() => setActiveFileName(file.name)} className={`${tabClass(file === activeFile)} font-mono`}>{file.name}</button>
+                            ))}
+                        </div>
+                    )}
+                    <pre className="p-4 text-sm overflow-x-auto max-h-96"><code className="text-white font-mono"><CodeHighlight code={activeFile.content} language={getFileLanguage(activeFile.name)} /></code></pre>
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,267 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ImageEditStep } from '../types';
+import { editImage } from '../services/gemini';
+import { resolveMediaUrl } from '../services/assets';
+import { urlToFile } from '../utils';
+import { useMediaUrl } from './MediaAsset';
+import { Button, GlassCard, Input, Modal, Spinner } from './UI';
+import { EditIcon, RefreshIcon, SendIcon, StopCircleIcon, TrashIcon, XIcon } from './Icons';
+
+const BRUSH_SIZES = [12, 32, 64];
+const MASK_COLOR = 'rgb(239, 68, 68)';
+
+// Turns the painted overlay into the mask editImage expects: white where painted, black elsewhere.
+const exportMask = (canvas: HTMLCanvasElement): Promise<Blob> => {
+    const mask = document.createElement('canvas');
+    mask.width = canvas.width;
+    mask.height = canvas.height;
+    const context = mask.getContext('2d')!;
+    context.drawImage(canvas, 0, 0);
+    context.globalCompositeOperation = 'source-in';
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, mask.width, mask.height);
+    context.globalCompositeOperation = 'destination-over';
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, mask.width, mask.height);
+    return new Promise((resolve, reject) => mask.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not create the mask.")), 'image/png'));
+};
+
+// MaskCanvas: The current image with a transparent layer on top to paint the region to change
+const MaskCanvas: React.FC<{
+    url: string;
+    brushSize: number;
+    isErasing: boolean;
+    canvasRef: React.RefObject<HTMLCanvasElement>;
+    onPainted: () => void;
+}> = ({ url, brushSize, isErasing, canvasRef, onPainted }) => {
+    const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+    // The canvas uses the image's own resolution, so the exported mask lines up pixel for pixel.
+    const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        canvas.width = e.currentTarget.naturalWidth;
+        canvas.height = e.currentTarget.naturalHeight;
+    };
+
+    const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        const scale = e.currentTarget.width / rect.width;
+        return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+    };
+
+    const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+        const context = e.currentTarget.getContext('2d');
+        if (!context) return;
+        const { x, y, scale } = toCanvasPoint(e);
+        const from = lastPointRef.current || { x, y };
+        context.globalCompositeOperation = isErasing ? 'destination-out' : 'source-over';
+        context.strokeStyle = MASK_COLOR;
+        context.lineWidth = brushSize * scale;
+        context.lineCap = 'round';
+        context.lineJoin = 'round';
+        context.beginPath();
+        context.moveTo(from.x, from.y);
+        context.lineTo(x, y);
+        context.stroke();
+        lastPointRef.current = { x, y };
+        if (!isErasing) onPainted();
+    };
+
+    return (
+        <div className="relative w-fit mx-auto">
+            <img src={url} alt="image being edited" onLoad={handleImageLoad} className="max-h-[55vh] max-w-full rounded-lg select-none" draggable={false} />
+            <canvas
+                ref={canvasRef}
+                className="absolute inset-0 h-full w-full opacity-50 cursor-crosshair touch-none rounded-lg"
+                onPointerDown={e => { e.currentTarget.setPointerCapture(e.pointerId); lastPointRef.current = null; paint(e); }}
+                onPointerMove={e => { if (e.buttons === 1) paint(e); }}
+                onPointerUp={() => { lastPointRef.current = null; }}
+            />
+        </div>
+    );
+};
+
+// BeforeAfter: Two versions of an image on top of each other, split by a slider
+const BeforeAfter: React.FC<{ before: string; after: string }> = ({ before, after }) => {
+    const [split, setSplit] = useState(50);
+    return (
+        <div className="relative w-fit mx-auto select-none">
+            <img src={after} alt="after" className="max-h-[55vh] max-w-full rounded-lg" draggable={false} />
+            <img
+                src={before}
+                alt="before"
+                className="absolute inset-0 h-full w-full rounded-lg object-cover"
+                style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+                draggable={false}
+            />
+            <div className="absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${split}%` }} />
+            <span className="absolute top-2 left-2 text-xs bg-black/60 text-white px-2 py-0.5 rounded">Before</span>
+            <span className="absolute top-2 right-2 text-xs bg-black/60 text-white px-2 py-0.5 rounded">After</span>
+            <input
+                type="range"
+                min={0}
+                max={100}
+                value={split}
+                onChange={e => setSplit(Number(e.target.value))}
+                className="absolute bottom-2 left-1/2 -translate-x-1/2 w-2/3"
+                aria-label="Before and after split"
+            />
+        </div>
+    );
+};
+
+const StepThumbnail: React.FC<{ step: ImageEditStep; index: number; isCurrent: boolean; onSelect: () => void }> = ({ step, index, isCurrent, onSelect }) => {
+    const { url } = useMediaUrl(step.image, true);
+    return (
+        <button
+            onClick={onSelect}
+            title={step.prompt || 'Original'}
+            className={`shrink-0 w-20 text-left ${isCurrent ? '' : 'opacity-70 hover:opacity-100'}`}
+        >
+            <div className={`h-20 w-20 rounded-lg overflow-hidden bg-black/10 dark:bg-white/10 flex items-center justify-center ${isCurrent ? 'ring-4 ring-indigo-500' : ''}`}>
+                {url ? <img src={url} alt={`step ${index}`} className="h-full w-full object-cover" /> : <Spinner className="h-4 w-4" />}
+            </div>
+            <p className="mt-1 text-xs truncate text-gray-500 dark:text-gray-400">{index === 0 ? 'Original' : `${index}. ${step.prompt}`}</p>
+        </button>
+    );
+};
+
+interface ImageEditorProps {
+    steps: ImageEditStep[];
+    currentIndex: number;
+    onChange: (steps: ImageEditStep[], currentIndex: number) => void;
+    onClose: () => void;
+}
+
+// ImageEditor: Applies prompt edits to an image one after another, optionally limited to a painted
+// mask. Every version is kept as a step; picking an earlier one reverts to it, and the next edit
+// starts from there without discarding the later steps.
+export const ImageEditor: React.FC<ImageEditorProps> = ({ steps, currentIndex, onChange, onClose }) => {
+    const [prompt, setPrompt] = useState('');
+    const [brushSize, setBrushSize] = useState(BRUSH_SIZES[1]);
+    const [isErasing, setIsErasing] = useState(false);
+    const [hasMask, setHasMask] = useState(false);
+    const [isComparing, setIsComparing] = useState(false);
+    const [isApplying, setIsApplying] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const current = steps[currentIndex];
+    const previous = current.from !== undefined ? steps[current.from] : undefined;
+    const { url: currentUrl } = useMediaUrl(current.image, true);
+    const { url: previousUrl } = useMediaUrl(previous?.image || current.image, !!previous);
+
+    useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+    const clearMask = () => {
+        const canvas = canvasRef.current;
+        canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+        setHasMask(false);
+    };
+
+    const selectStep = (index: number) => {
+        clearMask();
+        setIsComparing(false);
+        onChange(steps, index);
+    };
+
+    const handleApply = async () => {
+        if (!prompt.trim() || isApplying) return;
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+        setIsApplying(true);
+        setError(null);
+        try {
+            const file = await urlToFile(await resolveMediaUrl(current.image), 'image');
+            const mask = hasMask && canvasRef.current ? await exportMask(canvasRef.current) : undefined;
+            const edited = await editImage(prompt.trim(), file, controller.signal, mask);
+            const nextSteps = [...steps, { image: edited, prompt: prompt.trim(), from: currentIndex, masked: !!mask || undefined }];
+            onChange(nextSteps, nextSteps.length - 1);
+            setPrompt('');
+            clearMask();
+        } catch (err: any) {
+            if (!controller.signal.aborted) setError(err.message);
+        } finally {
+            if (abortControllerRef.current === controller) abortControllerRef.current = null;
+            setIsApplying(false);
+        }
+    };
+
+    const handleStop = () => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        setIsApplying(false);
+    };
+
+    return (
+        <Modal isOpen onClose={onClose} className="max-w-4xl">
+            <GlassCard className="w-full max-h-[95vh] overflow-y-auto space-y-4">
+                <div className="flex items-center justify-between">
+                    <h2 className="text-lg font-bold text-slate-900 dark:text-white flex items-center gap-2"><EditIcon className="h-5 w-5" /> Edit Image</h2>
+                    <Button variant="ghost" onClick={onClose} className="p-1.5"><XIcon className="h-4 w-4" /></Button>
+                </div>
+
+                {!currentUrl ? (
+                    <div className="h-64 flex items-center justify-center"><Spinner className="h-8 w-8" /></div>
+                ) : isComparing && previousUrl ? (
+                    <BeforeAfter before={previousUrl} after={currentUrl} />
+                ) : (
+                    <MaskCanvas key={currentUrl} url={currentUrl} brushSize={brushSize} isErasing={isErasing} canvasRef={canvasRef} onPainted={() => setHasMask(true)} />
+                )}
+
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-gray-600 dark:text-gray-300 font-medium">Mask brush:</span>
+                    {BRUSH_SIZES.map(size => (
+                        <Button key={size} variant={!isErasing && brushSize === size ? 'primary' : 'secondary'} onClick={() => { setBrushSize(size); setIsErasing(false); }} disabled={isComparing} className="text-xs px-2.5 py-1">
+                            <span className="rounded-full bg-current" style={{ width: size / 4, height: size / 4 }} />
+                        </Button>
+                    ))}
+                    <Button variant={isErasing ? 'primary' : 'secondary'} onClick={() => setIsErasing(e => !e)} disabled={isComparing} className="text-xs px-2.5 py-1">Eraser</Button>
+                    <Button variant="ghost" onClick={clearMask} disabled={!hasMask || isComparing} className="text-xs px-2.5 py-1"><TrashIcon className="h-3.5 w-3.5" /> Clear mask</Button>
+                    {previous && (
+                        <Button variant={isComparing ? 'primary' : 'secondary'} onClick={() => { clearMask(); setIsComparing(c => !c); }} className="text-xs px-2.5 py-1 ml-auto">
+                            Before / After
+                        </Button>
+                    )}
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {hasMask ? 'Only the painted area will change.' : 'Paint over a region to limit the edit to it, or leave the image unpainted to edit all of it.'}
+                </p>
+
+                <div className="flex items-center gap-2">
+                    <Input
+                        value={prompt}
+                        onChange={e => setPrompt(e.target.value)}
+                        onKeyDown={e => { if (e.key === 'Enter') handleApply(); }}
+                        placeholder="Describe the change, e.g. make the sky a sunset"
+                        disabled={isApplying}
+                        className="flex-1"
+                    />
+                    {isApplying ? (
+                        <Button onClick={handleStop} className="bg-red-500 hover:bg-red-400" title="Stop"><StopCircleIcon className="h-5 w-5" /></Button>
+                    ) : (
+                        <Button onClick={handleApply} disabled={!prompt.trim()}><SendIcon className="h-5 w-5" /> Apply</Button>
+                    )}
+                </div>
+                {isApplying && <p className="text-sm text-gray-500 flex items-center gap-2"><Spinner className="h-4 w-4" /> Editing...</p>}
+                {error && <p className="text-sm text-red-500">{error}</p>}
+
+                <div>
+                    <div className="flex items-center justify-between mb-2">
+                        <p className="text-sm font-medium text-gray-600 dark:text-gray-300">History</p>
+                        {currentIndex !== steps.length - 1 && (
+                            <Button variant="ghost" onClick={() => selectStep(steps.length - 1)} className="text-xs px-2 py-1"><RefreshIcon className="h-3.5 w-3.5" /> Back to latest</Button>
+                        )}
+                    </div>
+                    <div className="flex gap-3 overflow-x-auto pb-2">
+                        {steps.map((step, index) => (
+                            <StepThumbnail key={index} step={step} index={index} isCurrent={index === currentIndex} onSelect={() => selectStep(index)} />
+                        ))}
+                    </div>
+                </div>
+            </GlassCard>
+        </Modal>
+    );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { AspectRatio, ImageFormat, ImageGenSettings } from '../types';
+import { Button, Input, Select } from './UI';
+
+export const DEFAULT_IMAGE_GEN_SETTINGS: ImageGenSettings = { aspectRatio: '1:1', count: 1, format: 'image/jpeg' };
+
+const ASPECT_RATIOS: AspectRatio[] = ['1:1', '16:9', '9:16', '4:3', '3:4'];
+const IMAGE_COUNTS = [1, 2, 3, 4];
+
+interface ImageGenPanelProps {
+    settings: ImageGenSettings;
+    onChange: (settings: ImageGenSettings) => void;
+}
+
+// ImageGenPanel: Composer options for the image-gen tool
+export const ImageGenPanel: React.FC<ImageGenPanelProps> = ({ settings, onChange }) => {
+    const update = (fields: Partial<ImageGenSettings>) => onChange({ ...settings, ...fields });
+    const labelClass = "text-sm font-medium text-gray-600 dark:text-gray-300";
+
+    return (
+        <div className="p-2 space-y-2">
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+                <div className="flex items-center gap-2">
+                    <span className={labelClass}>Aspect Ratio:</span>
+                    {ASPECT_RATIOS.map(ratio => (
+                        <Button key={ratio} variant={settings.aspectRatio === ratio ? 'primary' : 'secondary'} onClick={() => update({ aspectRatio: ratio })} className="text-xs px-2.5 py-1">{ratio}</Button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className={labelClass}>Images:</span>
+                    {IMAGE_COUNTS.map(count => (
+                        <Button key={count} variant={settings.count === count ? 'primary' : 'secondary'} onClick={() => update({ count })} className="text-xs px-2.5 py-1">{count}</Button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-2">
+                    <span className={labelClass}>Format:</span>
+                    <Select value={settings.format} onChange={e => update({ format: e.target.value as ImageFormat })} className="text-xs px-2 py-1">
+                        <option value="image/jpeg">JPEG</option>
+                        <option value="image/png">PNG</option>
+                    </Select>
+                </div>
+            </div>
+            <Input
+                value={settings.negativePrompt || ''}
+                onChange={e => update({ negativePrompt: e.target.value })}
+                placeholder="Negative prompt: what to leave out, e.g. text, blur"
+                className="w-full px-3 py-1.5 text-sm"
+            />
+        </div>
+    );
+};
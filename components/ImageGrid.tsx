@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { useMediaUrl } from './MediaAsset';
+import { Button, Spinner } from './UI';
+import { DownloadIcon, EditIcon, SparklesIcon } from './Icons';
+
+const Thumbnail: React.FC<{ src: string; isSelected: boolean; onSelect: () => void }> = ({ src, isSelected, onSelect }) => {
+    const { url, failed } = useMediaUrl(src, true);
+    return (
+        <button
+            onClick={onSelect}
+            className={`relative aspect-square rounded-lg overflow-hidden bg-black/10 dark:bg-white/10 flex items-center justify-center ${isSelected ? 'ring-4 ring-indigo-500' : 'opacity-80 hover:opacity-100'}`}
+        >
+            {failed ? (
+                <span className="text-xs px-2 opacity-80">Not available</span>
+            ) : url ? (
+                <img src={url} alt="generated option" className="h-full w-full object-cover" />
+            ) : (
+                <Spinner className="h-5 w-5" />
+            )}
+        </button>
+    );
+};
+
+interface ImageGridProps {
+    images: string[];
+    selected?: string;
+    isBusy?: boolean;
+    onSelect: (image: string) => void;
+    onUpscale: (image: string) => Promise<void>;
+    onDownload: (image: string) => void;
+    onEdit: (image: string) => void; // opens the image editor
+}
+
+// ImageGrid: The images of an image-gen reply. One is selected at a time, and the actions apply to it.
+export const ImageGrid: React.FC<ImageGridProps> = ({ images, selected, isBusy, onSelect, onUpscale, onDownload, onEdit }) => {
+    const [isUpscaling, setIsUpscaling] = useState(false);
+    const current = selected && images.includes(selected) ? selected : images[0];
+    const { url } = useMediaUrl(current, true);
+
+    const handleUpscale = async () => {
+        setIsUpscaling(true);
+        try {
+            await onUpscale(current);
+        } finally {
+            setIsUpscaling(false);
+        }
+    };
+
+    return (
+        <div className="mt-2 space-y-2">
+            {url && (
+                <a href={url} target="_blank" rel="noopener noreferrer" title="Open full size">
+                    <img src={url} alt="selected generated content" className="max-h-96 max-w-full rounded-lg object-contain cursor-zoom-in" />
+                </a>
+            )}
+            {images.length > 1 && (
+                <div className="grid grid-cols-4 gap-2 max-w-sm">
+                    {images.map((image, index) => (
+                        <Thumbnail key={`${index}-${image}`} src={image} isSelected={image === current} onSelect={() => onSelect(image)} />
+                    ))}
+                </div>
+            )}
+            <div className="flex flex-wrap gap-2">
+                <Button variant="secondary" onClick={handleUpscale} disabled={isBusy || isUpscaling} className="text-xs px-3 py-1">
+                    {isUpscaling ? <Spinner className="h-3.5 w-3.5" /> : <SparklesIcon className="h-3.5 w-3.5" />} Upscale
+                </Button>
+                <Button variant="secondary" onClick={() => onDownload(current)} className="text-xs px-3 py-1">
+                    <DownloadIcon className="h-3.5 w-3.5" /> Download
+                </Button>
+                <Button variant="secondary" onClick={() => onEdit(current)} disabled={isBusy} className="text-xs px-3 py-1">
+                    <EditIcon className="h-3.5 w-3.5" /> Edit
+                </Button>
+            </div>
+        </div>
+    );
+};
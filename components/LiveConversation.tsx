@@ -0,0 +1,308 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import type { LiveServerMessage, Session } from '@google/genai';
+import { connectLive } from '../services/gemini';
+import { createPcmBlob, decode, decodeAudioData } from '../utils';
+import { BotIcon, UserIcon, MicIcon, StopCircleIcon, AudioLinesIcon } from './Icons';
+import { Button, GlassCard, Spinner } from './UI';
+
+const INPUT_SAMPLE_RATE = 16000;
+const OUTPUT_SAMPLE_RATE = 24000;
+const MAX_RECONNECT_ATTEMPTS = 3;
+
+type LiveStatus = 'idle' | 'connecting' | 'listening' | 'reconnecting' | 'error';
+
+interface TranscriptEntry {
+    id: string;
+    role: 'user' | 'model';
+    text: string;
+    isFinal: boolean;
+}
+
+// LiveConversation: Real-time voice mode backed by the Gemini Live API
+export const LiveConversation: React.FC = () => {
+    const [status, setStatus] = useState<LiveStatus>('idle');
+    const [error, setError] = useState<string | null>(null);
+    const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+    const [isModelSpeaking, setIsModelSpeaking] = useState(false);
+
+    const sessionPromiseRef = useRef<Promise<Session> | null>(null);
+    const inputContextRef = useRef<AudioContext | null>(null);
+    const outputContextRef = useRef<AudioContext | null>(null);
+    const mediaStreamRef = useRef<MediaStream | null>(null);
+    const processorRef = useRef<ScriptProcessorNode | null>(null);
+    const micSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+    const playbackSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
+    const nextStartTimeRef = useRef(0);
+    const reconnectAttemptsRef = useRef(0);
+    const reconnectTimerRef = useRef<number | null>(null);
+    const isStoppingRef = useRef(false);
+    const startTokenRef = useRef(0); // bumped by every start and stop, so a start that was overtaken can tell
+    const endOfTranscriptRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        endOfTranscriptRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }, [transcript]);
+
+    // Appends streamed transcription text to the open entry for a role, or opens a new one.
+    const appendTranscript = (role: 'user' | 'model', text: string) => {
+        setTranscript(prev => {
+            const last = prev[prev.length - 1];
+            if (last && last.role === role && !last.isFinal) {
+                return [...prev.slice(0, -1), { ...last, text: last.text + text }];
+            }
+            return [...prev, { id: `${Date.now()}-${role}`, role, text, isFinal: false }];
+        });
+    };
+
+    const finalizeTranscript = () => {
+        setTranscript(prev => prev.map(entry => entry.isFinal ? entry : { ...entry, isFinal: true }));
+    };
+
+    const stopPlayback = () => {
+        playbackSourcesRef.current.forEach(source => {
+            try { source.stop(); } catch { /* already stopped */ }
+        });
+        playbackSourcesRef.current.clear();
+        nextStartTimeRef.current = 0;
+        setIsModelSpeaking(false);
+    };
+
+    // Queues a chunk of model audio right after the previous one so playback stays gapless.
+    const playAudioChunk = async (base64Audio: string) => {
+        const ctx = outputContextRef.current;
+        if (!ctx) return;
+        const audioBuffer = await decodeAudioData(decode(base64Audio), ctx, OUTPUT_SAMPLE_RATE, 1);
+        nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+        const source = ctx.createBufferSource();
+        source.buffer = audioBuffer;
+        source.connect(ctx.destination);
+        source.addEventListener('ended', () => {
+            playbackSourcesRef.current.delete(source);
+            if (playbackSourcesRef.current.size === 0) setIsModelSpeaking(false);
+        });
+        source.start(nextStartTimeRef.current);
+        nextStartTimeRef.current += audioBuffer.duration;
+        playbackSourcesRef.current.add(source);
+        setIsModelSpeaking(true);
+    };
+
+    const handleServerMessage = async (message: LiveServerMessage) => {
+        const content = message.serverContent;
+        if (!content) return;
+
+        if (content.inputTranscription?.text) {
+            appendTranscript('user', content.inputTranscription.text);
+        }
+        if (content.outputTranscription?.text) {
+            appendTranscript('model', content.outputTranscription.text);
+        }
+        if (content.interrupted) {
+            // The user barged in: drop everything still queued for playback.
+            stopPlayback();
+            finalizeTranscript();
+        }
+        if (content.turnComplete) {
+            finalizeTranscript();
+        }
+
+        const base64Audio = content.modelTurn?.parts?.[0]?.inlineData?.data;
+        if (base64Audio) {
+            try {
+                await playAudioChunk(base64Audio);
+            } catch (err) {
+                console.error("Failed to play live audio chunk:", err);
+            }
+        }
+    };
+
+    // Streams microphone input to the session as 16 kHz PCM.
+    const startMicStreaming = (sessionPromise: Promise<Session>) => {
+        const inputCtx = inputContextRef.current;
+        const stream = mediaStreamRef.current;
+        if (!inputCtx || !stream) return;
+
+        processorRef.current?.disconnect();
+        micSourceRef.current?.disconnect();
+
+        const source = inputCtx.createMediaStreamSource(stream);
+        const processor = inputCtx.createScriptProcessor(4096, 1, 1);
+        processor.onaudioprocess = (event) => {
+            const pcmBlob = createPcmBlob(event.inputBuffer.getChannelData(0), INPUT_SAMPLE_RATE);
+            sessionPromise.then(session => session.sendRealtimeInput({ media: pcmBlob })).catch(() => {
+                // Connection errors are surfaced through the onerror/onclose callbacks.
+            });
+        };
+        source.connect(processor);
+        processor.connect(inputCtx.destination);
+        micSourceRef.current = source;
+        processorRef.current = processor;
+    };
+
+    const teardownAudio = () => {
+        processorRef.current?.disconnect();
+        processorRef.current = null;
+        micSourceRef.current?.disconnect();
+        micSourceRef.current = null;
+        mediaStreamRef.current?.getTracks().forEach(track => track.stop());
+        mediaStreamRef.current = null;
+        stopPlayback();
+        inputContextRef.current?.close().catch(() => {});
+        inputContextRef.current = null;
+        outputContextRef.current?.close().catch(() => {});
+        outputContextRef.current = null;
+    };
+
+    const closeSession = () => {
+        const sessionPromise = sessionPromiseRef.current;
+        sessionPromiseRef.current = null;
+        sessionPromise?.then(session => session.close()).catch(() => {});
+    };
+
+    const scheduleReconnect = (reason: string) => {
+        if (isStoppingRef.current || reconnectTimerRef.current !== null) return;
+        closeSession();
+        if (reconnectAttemptsRef.current >= MAX_RECONNECT_ATTEMPTS) {
+            teardownAudio();
+            setError(`Connection lost: ${reason}`);
+            setStatus('error');
+            return;
+        }
+        reconnectAttemptsRef.current += 1;
+        const delay = 1000 * 2 ** (reconnectAttemptsRef.current - 1);
+        setStatus('reconnecting');
+        reconnectTimerRef.current = window.setTimeout(() => {
+            reconnectTimerRef.current = null;
+            openSession();
+        }, delay);
+    };
+
+    const openSession = () => {
+        stopPlayback();
+        finalizeTranscript();
+        const sessionPromise = connectLive({
+            onopen: () => {
+                // Stopping drops the session, which is then closed as soon as it connects.
+                if (sessionPromiseRef.current !== sessionPromise) return;
+                reconnectAttemptsRef.current = 0;
+                setError(null);
+                setStatus('listening');
+                startMicStreaming(sessionPromise);
+            },
+            onmessage: (message) => {
+                if (sessionPromiseRef.current === sessionPromise) handleServerMessage(message);
+            },
+            onerror: (event) => {
+                console.error("Live session error:", event);
+                scheduleReconnect(event.message || 'network error');
+            },
+            onclose: (event) => {
+                if (sessionPromiseRef.current === sessionPromise) {
+                    scheduleReconnect(event.reason || 'the connection was closed');
+                }
+            },
+        });
+        sessionPromiseRef.current = sessionPromise;
+        sessionPromise.catch((err: Error) => {
+            if (sessionPromiseRef.current === sessionPromise) {
+                scheduleReconnect(err.message);
+            }
+        });
+    };
+
+    const handleStart = async () => {
+        if (status === 'connecting' || status === 'listening' || status === 'reconnecting') return;
+        const startToken = ++startTokenRef.current;
+        isStoppingRef.current = false;
+        reconnectAttemptsRef.current = 0;
+        setError(null);
+        setStatus('connecting');
+        try {
+            const mediaStream = await navigator.mediaDevices.getUserMedia({ audio: true });
+            // Stopped, or the view was left, while the browser asked for the microphone.
+            if (startTokenRef.current !== startToken) {
+                mediaStream.getTracks().forEach(track => track.stop());
+                return;
+            }
+            mediaStreamRef.current = mediaStream;
+            const AudioContextCtor = window.AudioContext || window.webkitAudioContext;
+            inputContextRef.current = new AudioContextCtor({ sampleRate: INPUT_SAMPLE_RATE });
+            outputContextRef.current = new AudioContextCtor({ sampleRate: OUTPUT_SAMPLE_RATE });
+            openSession();
+        } catch (err: any) {
+            if (startTokenRef.current !== startToken) return;
+            console.error("Error starting live conversation:", err);
+            teardownAudio();
+            setError(err.name === 'NotAllowedError'
+                ? "Could not access microphone. Please check your browser permissions."
+                : err.message || "Failed to start live conversation.");
+            setStatus('error');
+        }
+    };
+
+    const handleStop = useCallback(() => {
+        startTokenRef.current += 1;
+        isStoppingRef.current = true;
+        if (reconnectTimerRef.current !== null) {
+            clearTimeout(reconnectTimerRef.current);
+            reconnectTimerRef.current = null;
+        }
+        closeSession();
+        teardownAudio();
+        finalizeTranscript();
+        setStatus('idle');
+    }, []);
+
+    // End the session when leaving the view.
+    useEffect(() => handleStop, [handleStop]);
+
+    const isActive = status === 'connecting' || status === 'listening' || status === 'reconnecting';
+    const statusLabel: Record<LiveStatus, string> = {
+        idle: 'Tap the mic to start a live conversation',
+        connecting: 'Connecting...',
+        listening: isModelSpeaking ? 'RipoAI is speaking... (just talk to interrupt)' : 'Listening...',
+        reconnecting: `Connection interrupted, reconnecting (attempt ${reconnectAttemptsRef.current}/${MAX_RECONNECT_ATTEMPTS})...`,
+        error: 'Live conversation stopped',
+    };
+
+    return (
+        <div className="flex flex-col h-full max-w-4xl mx-auto w-full px-4">
+            <div className="flex-1 overflow-y-auto pt-6">
+                {transcript.length === 0 && (
+                    <div className="h-full flex flex-col items-center justify-center text-center text-gray-500 dark:text-gray-400">
+                        <AudioLinesIcon className="h-12 w-12 mb-4 text-indigo-400" />
+                        <p>Talk with RipoAI in real time. Your words and its replies will be transcribed here.</p>
+                    </div>
+                )}
+                {transcript.map(entry => (
+                    <div key={entry.id} className="flex items-start gap-4 my-4">
+                        <div className={`p-2 rounded-full shrink-0 ${entry.role === 'model' ? 'bg-indigo-500' : 'bg-gray-600'}`}>
+                            {entry.role === 'model' ? <BotIcon className="h-5 w-5 text-white" /> : <UserIcon className="h-5 w-5 text-white" />}
+                        </div>
+                        <div className={`px-4 py-3 rounded-2xl w-fit max-w-xl ${entry.role === 'model' ? 'bg-gray-200 dark:bg-gray-800' : 'bg-indigo-600 text-white'} ${entry.isFinal ? '' : 'opacity-70'}`}>
+                            <p className="whitespace-pre-wrap">{entry.text}</p>
+                        </div>
+                    </div>
+                ))}
+                <div ref={endOfTranscriptRef} />
+            </div>
+            <div className="py-6 w-full">
+                <GlassCard className="p-4 flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-3 text-sm text-gray-600 dark:text-gray-300">
+                        {(status === 'connecting' || status === 'reconnecting') && <Spinner className="h-4 w-4" />}
+                        {status === 'listening' && <span className={`h-3 w-3 rounded-full ${isModelSpeaking ? 'bg-indigo-500' : 'bg-green-500'} animate-pulse`} />}
+                        <div>
+                            <p>{statusLabel[status]}</p>
+                            {error && <p className="text-red-500 font-semibold">{error}</p>}
+                        </div>
+                    </div>
+                    <Button
+                        onClick={isActive ? handleStop : handleStart}
+                        className={`rounded-full w-12 h-12 p-2 aspect-square shrink-0 ${isActive ? 'bg-red-500 hover:bg-red-400' : ''}`}
+                    >
+                        {isActive ? <StopCircleIcon className="h-6 w-6" /> : <MicIcon className="h-6 w-6" />}
+                    </Button>
+                </GlassCard>
+            </div>
+        </div>
+    );
+};
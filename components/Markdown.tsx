@@ -0,0 +1,297 @@
+import React, { useState, useMemo } from 'react';
+import { CheckIcon, CopyIcon, CodeIcon } from './Icons';
+import { CodeHighlight } from './CodeHighlight';
+import { CodePreview } from './CodePreview';
+
+// Renders model Markdown as React elements. Raw HTML in the source is shown as text and only
+// http(s)/mailto links are made clickable, so nothing from a model reply can inject markup.
+
+type Block =
+    | { type: 'heading'; level: number; text: string }
+    | { type: 'paragraph'; text: string }
+    | { type: 'code'; language: string; code: string }
+    | { type: 'list'; ordered: boolean; start: number; items: Block[][] }
+    | { type: 'blockquote'; blocks: Block[] }
+    | { type: 'table'; header: string[]; align: ('left' | 'center' | 'right' | null)[]; rows: string[][] }
+    | { type: 'hr' };
+
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const HR = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const splitTableRow = (line: string): string[] =>
+    line.trim().replace(/^\|/, '').replace(/\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const isBlockStart = (line: string, nextLine?: string): boolean =>
+    FENCE.test(line) || HEADING.test(line) || HR.test(line) || BLOCKQUOTE.test(line) || LIST_ITEM.test(line) ||
+    (line.includes('|') && nextLine !== undefined && TABLE_DIVIDER.test(nextLine));
+
+const parseBlocks = (text: string): Block[] => {
+    const lines = text.replace(/\r\n?/g, '\n').split('\n');
+    const blocks: Block[] = [];
+    let i = 0;
+
+    while (i < lines.length) {
+        const line = lines[i];
+
+        if (!line.trim()) {
+            i++;
+            continue;
+        }
+
+        const fence = FENCE.exec(line);
+        if (fence) {
+            const marker = fence[1];
+            const codeLines: string[] = [];
+            i++;
+            // An unclosed fence (e.g. mid-stream) runs to the end of the text.
+            const isClosingFence = (candidate: string) => {
+                const trimmed = candidate.trim();
+                return trimmed.length >= marker.length && trimmed === marker[0].repeat(trimmed.length);
+            };
+            while (i < lines.length && !isClosingFence(lines[i])) {
+                codeLines.push(lines[i]);
+                i++;
+            }
+            i++;
+            blocks.push({ type: 'code', language: fence[2], code: codeLines.join('\n') });
+            continue;
+        }
+
+        const heading = HEADING.exec(line);
+        if (heading) {
+            blocks.push({ type: 'heading', level: heading[1].length, text: heading[2] });
+            i++;
+            continue;
+        }
+
+        if (HR.test(line)) {
+            blocks.push({ type: 'hr' });
+            i++;
+            continue;
+        }
+
+        if (line.includes('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+            const header = splitTableRow(line);
+            const align = splitTableRow(lines[i + 1]).map(cell => {
+                const left = cell.startsWith(':');
+                const right = cell.endsWith(':');
+                return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+            });
+            const rows: string[][] = [];
+            i += 2;
+            while (i < lines.length && lines[i].includes('|') && lines[i].trim()) {
+                rows.push(splitTableRow(lines[i]));
+                i++;
+            }
+            blocks.push({ type: 'table', header, align, rows });
+            continue;
+        }
+
+        if (BLOCKQUOTE.test(line)) {
+            const quoteLines: string[] = [];
+            while (i < lines.length && lines[i].trim() && (BLOCKQUOTE.test(lines[i]) || !isBlockStart(lines[i]))) {
+                quoteLines.push(lines[i].replace(BLOCKQUOTE, ''));
+                i++;
+            }
+            blocks.push({ type: 'blockquote', blocks: parseBlocks(quoteLines.join('\n')) });
+            continue;
+        }
+
+        const listItem = LIST_ITEM.exec(line);
+        if (listItem) {
+            const baseIndent = listItem[1].length;
+            const ordered = /\d/.test(listItem[2]);
+            const items: string[][] = [];
+            while (i < lines.length) {
+                const current = lines[i];
+                const item = LIST_ITEM.exec(current);
+                if (item && item[1].length === baseIndent && /\d/.test(item[2]) === ordered) {
+                    items.push([item[3]]);
+                    i++;
+                    continue;
+                }
+                const indent = current.length - current.trimStart().length;
+                if (current.trim() && indent > baseIndent) {
+                    // Continuation or nested content belongs to the current item.
+                    items[items.length - 1].push(current.slice(Math.min(indent, baseIndent + 2)));
+                    i++;
+                    continue;
+                }
+                if (!current.trim() && i + 1 < lines.length) {
+                    const next = lines[i + 1];
+                    const nextItem = LIST_ITEM.exec(next);
+                    const nextIndent = next.length - next.trimStart().length;
+                    if ((nextItem && nextItem[1].length === baseIndent) || (next.trim() && nextIndent > baseIndent)) {
+                        items[items.length - 1].push('');
+                        i++;
+                        continue;
+                    }
+                }
+                break;
+            }
+            blocks.push({
+                type: 'list',
+                ordered,
+                start: ordered ? parseInt(listItem[2], 10) : 1,
+                items: items.map(itemLines => parseBlocks(itemLines.join('\n'))),
+            });
+            continue;
+        }
+
+        const paragraphLines: string[] = [];
+        while (i < lines.length && lines[i].trim() && (paragraphLines.length === 0 || !isBlockStart(lines[i], lines[i + 1]))) {
+            paragraphLines.push(lines[i].trim());
+            i++;
+        }
+        blocks.push({ type: 'paragraph', text: paragraphLines.join('\n') });
+    }
+
+    return blocks;
+};
+
+const INLINE_PATTERN = new RegExp([
+    String.raw`(?<code>(?<ticks>\`+)(?<codeText>[\s\S]*?[^\`])\k<ticks>(?!\`))`,
+    String.raw`(?<link>\[(?<linkText>[^\]]+)\]\((?<linkUrl>[^)\s]+)(?:\s+"[^"]*")?\))`,
+    String.raw`(?<autolink>https?:\/\/[^\s<]+[^\s<.,:;"')\]])`,
+    String.raw`(?<bold>\*\*(?<boldText>[\s\S]+?)\*\*|__(?<boldText2>[\s\S]+?)__)`,
+    String.raw`(?<strike>~~(?<strikeText>[\s\S]+?)~~)`,
+    String.raw`(?<italic>\*(?<italicText>[^\s*](?:[\s\S]*?[^\s*])?)\*|(?<![\w])_(?<italicText2>[^\s_](?:[\s\S]*?[^\s_])?)_(?![\w]))`,
+    String.raw`(?<br>\n)`,
+].join('|'), 'g');
+
+const isSafeUrl = (url: string) => /^(https?:|mailto:)/i.test(url);
+
+const renderInline = (text: string, keyPrefix = 'i'): React.ReactNode[] => {
+    const nodes: React.ReactNode[] = [];
+    let lastIndex = 0;
+    for (const match of text.matchAll(INLINE_PATTERN)) {
+        const index = match.index ?? 0;
+        if (index > lastIndex) nodes.push(text.slice(lastIndex, index));
+        const g = match.groups || {};
+        const key = `${keyPrefix}-${index}`;
+        if (g.code) {
+            nodes.push(<code key={key} className="px-1 py-0.5 rounded bg-black/10 dark:bg-black/40 font-mono text-[0.9em]">{g.codeText.trim() || g.codeText}</code>);
+        } else if (g.link) {
+            nodes.push(isSafeUrl(g.linkUrl)
+                ? <a key={key} href={g.linkUrl} target="_blank" rel="noopener noreferrer" className="text-indigo-600 dark:text-indigo-300 underline">{renderInline(g.linkText, key)}</a>
+                : <React.Fragment key={key}>{renderInline(g.linkText, key)}</React.Fragment>);
+        } else if (g.autolink) {
+            nodes.push(<a key={key} href={g.autolink} target="_blank" rel="noopener noreferrer" className="text-indigo-600 dark:text-indigo-300 underline break-all">{g.autolink}</a>);
+        } else if (g.bold) {
+            nodes.push(<strong key={key}>{renderInline(g.boldText ?? g.boldText2, key)}</strong>);
+        } else if (g.strike) {
+            nodes.push(<del key={key}>{renderInline(g.strikeText, key)}</del>);
+        } else if (g.italic) {
+            nodes.push(<em key={key}>{renderInline(g.italicText ?? g.italicText2, key)}</em>);
+        } else if (g.br) {
+            nodes.push(<br key={key} />);
+        }
+        lastIndex = index + match[0].length;
+    }
+    if (lastIndex < text.length) nodes.push(text.slice(lastIndex));
+    return nodes;
+};
+
+const HTML_LANGUAGES = new Set(['html', 'htm', 'xhtml']);
+
+// CodeBlock: A highlighted fenced code block with copy and (for HTML) live preview actions
+const CodeBlock: React.FC<{ language: string; code: string }> = ({ language, code }) => {
+    const [copied, setCopied] = useState(false);
+    const [showPreview, setShowPreview] = useState(false);
+    const canPreview = HTML_LANGUAGES.has(language.toLowerCase());
+    // A fenced HTML block previews as a one-file project.
+    const previewFiles = useMemo(() => [{ name: 'index.html', content: code }], [code]);
+
+    const handleCopy = () => {
+        navigator.clipboard.writeText(code);
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+    };
+
+    return (
+        <div className="my-3 rounded-lg overflow-hidden border border-slate-700 bg-slate-900 text-white">
+            <div className="flex items-center justify-between px-3 py-1 bg-slate-950/70 text-xs text-gray-300">
+                <span className="font-mono">{language || 'code'}</span>
+                <div className="flex items-center gap-1">
+                    {canPreview && (
+                        <button onClick={() => setShowPreview(p => !p)} className={`flex items-center gap-1 px-2 py-1 rounded ${showPreview ? 'bg-indigo-600 text-white' : 'hover:bg-slate-700'}`}>
+                            <CodeIcon className="h-3.5 w-3.5" /> {showPreview ? 'Hide preview' : 'Open in preview'}
+                        </button>
+                    )}
+                    <button onClick={handleCopy} className="flex items-center gap-1 px-2 py-1 rounded hover:bg-slate-700">
+                        {copied ? <CheckIcon className="h-3.5 w-3.5" /> : <CopyIcon className="h-3.5 w-3.5" />} {copied ? 'Copied' : 'Copy'}
+                    </button>
+                </div>
+            </div>
+            <pre className="p-4 text-sm overflow-x-auto"><code className="font-mono"><CodeHighlight code={code} language={language} /></code></pre>
+            {showPreview && <div className="px-2 pb-2"><CodePreview files={previewFiles} /></div>}
+        </div>
+    );
+};
+
+const HEADING_CLASSES = ['text-2xl', 'text-xl', 'text-lg', 'text-base', 'text-sm', 'text-sm'];
+
+const renderBlocks = (blocks: Block[], keyPrefix = 'b'): React.ReactNode[] => blocks.map((block, index) => {
+    const key = `${keyPrefix}-${index}`;
+    switch (block.type) {
+        case 'heading':
+            return React.createElement(
+                `h${block.level}`,
+                { key, className: `${HEADING_CLASSES[block.level - 1]} font-bold mt-4 mb-2 first:mt-0` },
+                renderInline(block.text, key),
+            );
+        case 'paragraph':
+            return <p key={key} className="my-2 first:mt-0 last:mb-0">{renderInline(block.text, key)}</p>;
+        case 'code':
+            return <CodeBlock key={key} language={block.language} code={block.code} />;
+        case 'list': {
+            const items = block.items.map((item, itemIndex) => (
+                <li key={`${key}-${itemIndex}`} className="my-1">{renderBlocks(item, `${key}-${itemIndex}`)}</li>
+            ));
+            return block.ordered
+                ? <ol key={key} start={block.start} className="list-decimal pl-6 my-2 [&_p]:my-0">{items}</ol>
+                : <ul key={key} className="list-disc pl-6 my-2 [&_p]:my-0">{items}</ul>;
+        }
+        case 'blockquote':
+            return <blockquote key={key} className="border-l-4 border-indigo-400/60 pl-3 my-2 text-gray-600 dark:text-gray-300">{renderBlocks(block.blocks, key)}</blockquote>;
+        case 'table':
+            return (
+                <div key={key} className="my-3 overflow-x-auto">
+                    <table className="text-sm border-collapse">
+                        <thead>
+                            <tr>
+                                {block.header.map((cell, cellIndex) => (
+                                    <th key={cellIndex} style={{ textAlign: block.align[cellIndex] || undefined }} className="border border-black/20 dark:border-white/20 px-3 py-1.5 font-semibold bg-black/5 dark:bg-white/5">
+                                        {renderInline(cell, `${key}-h${cellIndex}`)}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {block.rows.map((row, rowIndex) => (
+                                <tr key={rowIndex}>
+                                    {block.header.map((_, cellIndex) => (
+                                        <td key={cellIndex} style={{ textAlign: block.align[cellIndex] || undefined }} className="border border-black/20 dark:border-white/20 px-3 py-1.5">
+                                            {renderInline(row[cellIndex] ?? '', `${key}-${rowIndex}-${cellIndex}`)}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            );
+        case 'hr':
+            return <hr key={key} className="my-4 border-black/10 dark:border-white/10" />;
+    }
+});
+
+// Markdown: Safely renders a Markdown string
+export const Markdown: React.FC<{ text: string; className?: string }> = ({ text, className }) => {
+    const blocks = useMemo(() => parseBlocks(text), [text]);
+    return <div className={`break-words ${className || ''}`}>{renderBlocks(blocks)}</div>;
+};
@@ -0,0 +1,83 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { resolveMediaUrl } from '../services/assets';
+import { Spinner } from './UI';
+
+type MediaKind = 'image' | 'video' | 'audio';
+
+// Resolves `src` (possibly an asset reference) once `enabled` turns true.
+export const useMediaUrl = (src: string, enabled: boolean) => {
+    const [url, setUrl] = useState<string | null>(null);
+    const [failed, setFailed] = useState(false);
+
+    useEffect(() => {
+        if (!enabled) return;
+        let cancelled = false;
+        setFailed(false);
+        resolveMediaUrl(src)
+            .then(resolved => { if (!cancelled) setUrl(resolved); })
+            .catch(error => {
+                console.warn("Could not load media:", error);
+                if (!cancelled) setFailed(true);
+            });
+        return () => { cancelled = true; };
+    }, [src, enabled]);
+
+    return { url, failed };
+};
+
+interface MediaAssetProps {
+    src: string;
+    kind: MediaKind;
+    alt?: string;
+    className?: string;
+    autoPlay?: boolean;
+    loop?: boolean;
+}
+
+// MediaAsset: Renders an image, video or audio message attachment. Nothing is fetched until the
+// message scrolls near the viewport; images show as thumbnails that open full size in a new tab,
+// and videos only load their first frame until played.
+export const MediaAsset: React.FC<MediaAssetProps> = ({ src, kind, alt, className = '', autoPlay, loop }) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const [isNearViewport, setIsNearViewport] = useState(false);
+    const { url, failed } = useMediaUrl(src, isNearViewport);
+
+    useEffect(() => {
+        const element = containerRef.current;
+        if (!element || isNearViewport) return;
+        const observer = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting)) setIsNearViewport(true);
+        }, { rootMargin: '300px' });
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [isNearViewport]);
+
+    const placeholderSize = kind === 'audio' ? 'h-10 w-64' : 'h-40 w-56';
+
+    return (
+        <div ref={containerRef} className={className}>
+            {failed ? (
+                <div className={`${placeholderSize} flex items-center justify-center rounded-lg bg-black/10 dark:bg-white/10 text-xs text-center px-2 opacity-80`}>
+                    This {kind} is no longer available.
+                </div>
+            ) : !url ? (
+                <div className={`${placeholderSize} flex items-center justify-center rounded-lg bg-black/10 dark:bg-white/10`}>
+                    {isNearViewport && <Spinner className="h-5 w-5" />}
+                </div>
+            ) : kind === 'image' ? (
+                // Browsers refuse to open data: URLs in a new tab, so only stored assets get the link.
+                url.startsWith('data:') ? (
+                    <img src={url} alt={alt} className="max-h-72 max-w-full rounded-lg object-contain" />
+                ) : (
+                    <a href={url} target="_blank" rel="noopener noreferrer" title="Open full size">
+                        <img src={url} alt={alt} loading="lazy" decoding="async" className="max-h-72 max-w-full rounded-lg object-contain cursor-zoom-in" />
+                    </a>
+                )
+            ) : kind === 'video' ? (
+                <video src={url} controls autoPlay={autoPlay} loop={loop} preload="metadata" className="max-h-72 max-w-full rounded-lg" />
+            ) : (
+                <audio src={url} controls preload="metadata" />
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import type { ChatTool, Model, Persona, Tool } from '../types';
+import { ModelId } from '../types';
+import { Button, GlassCard, Input, Modal, Select, Textarea, ToggleSwitch } from './UI';
+import { EditIcon, PlusIcon, SparklesIcon, TrashIcon, XIcon } from './Icons';
+
+const AVATAR_CHOICES = ['🤖', '🧑‍💻', '🧑‍🏫', '✍️', '🎨', '🔬', '📈', '🧭', '🍳', '🎧'];
+
+const createBlankPersona = (): Persona => ({
+    id: crypto.randomUUID(),
+    name: '',
+    avatar: AVATAR_CHOICES[0],
+    instructions: '',
+    model: ModelId.GEMINI_FLASH,
+    defaultTool: 'chat',
+    useSearch: false,
+    useThinkingMode: false,
+});
+
+interface PersonaEditorProps {
+    persona: Persona;
+    models: Model[];
+    tools: Tool[];
+    voicesFor: (model: ModelId) => string[];
+    onSave: (persona: Persona) => void;
+    onCancel: () => void;
+}
+
+const PersonaEditor: React.FC<PersonaEditorProps> = ({ persona, models, tools, voicesFor, onSave, onCancel }) => {
+    const [draft, setDraft] = useState(persona);
+    const update = (fields: Partial<Persona>) => setDraft(current => ({ ...current, ...fields }));
+
+    return (
+        <form
+            className="space-y-3"
+            onSubmit={e => {
+                e.preventDefault();
+                if (draft.name.trim()) onSave({ ...draft, name: draft.name.trim(), instructions: draft.instructions.trim() });
+            }}
+        >
+            <div className="flex flex-wrap gap-1">
+                {AVATAR_CHOICES.map(avatar => (
+                    <button
+                        key={avatar}
+                        type="button"
+                        onClick={() => update({ avatar })}
+                        className={`h-9 w-9 rounded-lg text-xl ${draft.avatar === avatar ? 'bg-indigo-600' : 'hover:bg-black/10 dark:hover:bg-white/10'}`}
+                    >
+                        {avatar}
+                    </button>
+                ))}
+            </div>
+            <Input autoFocus placeholder="Name, e.g. Code Reviewer" value={draft.name} onChange={e => update({ name: e.target.value })} required />
+            <Textarea
+                placeholder="Instructions: who the assistant is, how it should answer, what to avoid..."
+                value={draft.instructions}
+                onChange={e => update({ instructions: e.target.value })}
+                rows={6}
+            />
+            <div className="grid grid-cols-2 gap-2">
+                <Select value={draft.model} onChange={e => update({ model: e.target.value as ModelId })}>
+                    {models.map(model => <option key={model.id} value={model.id}>{model.name}</option>)}
+                </Select>
+                <Select value={draft.defaultTool} onChange={e => update({ defaultTool: e.target.value as ChatTool })}>
+                    {tools.map(tool => <option key={tool.id} value={tool.id}>{tool.name}</option>)}
+                </Select>
+            </div>
+            <Select value={draft.voice || ''} onChange={e => update({ voice: e.target.value || undefined })}>
+                <option value="">Your default voice</option>
+                {voicesFor(draft.model).map(voice => <option key={voice} value={voice}>Voice: {voice}</option>)}
+            </Select>
+            <div className="flex gap-6">
+                <ToggleSwitch label="Search by default" checked={draft.useSearch} onChange={useSearch => update({ useSearch })} />
+                <ToggleSwitch label="Thinking by default" checked={draft.useThinkingMode} onChange={useThinkingMode => update({ useThinkingMode })} />
+            </div>
+            <div className="flex justify-end gap-2 pt-2">
+                <Button type="button" variant="ghost" onClick={onCancel}>Cancel</Button>
+                <Button type="submit" disabled={!draft.name.trim()}>Save Persona</Button>
+            </div>
+        </form>
+    );
+};
+
+interface PersonaPickerProps {
+    isOpen: boolean;
+    personas: Persona[];
+    models: Model[];
+    tools: Tool[];
+    voicesFor: (model: ModelId) => string[]; // text-to-speech voices of the model's provider
+    onClose: () => void;
+    onStartChat: (persona: Persona | null) => void;
+    onSavePersona: (persona: Persona) => void;
+    onDeletePersona: (persona: Persona) => void;
+}
+
+// PersonaPicker: Starts a new chat as a saved persona, and creates, edits or deletes personas
+export const PersonaPicker: React.FC<PersonaPickerProps> = ({ isOpen, personas, models, tools, voicesFor, onClose, onStartChat, onSavePersona, onDeletePersona }) => {
+    const [editing, setEditing] = useState<Persona | null>(null);
+
+    const handleClose = () => {
+        setEditing(null);
+        onClose();
+    };
+
+    return (
+        <Modal isOpen={isOpen} onClose={handleClose}>
+            <GlassCard className="w-full max-h-[85vh] overflow-y-auto">
+                <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-bold text-slate-900 dark:text-white">
+                        {editing ? (personas.some(p => p.id === editing.id) ? 'Edit Persona' : 'New Persona') : 'Start a Chat'}
+                    </h2>
+                    <Button variant="ghost" onClick={handleClose} className="p-1.5"><XIcon className="h-4 w-4" /></Button>
+                </div>
+                {editing ? (
+                    <PersonaEditor
+                        persona={editing}
+                        models={models}
+                        tools={tools}
+                        voicesFor={voicesFor}
+                        onSave={persona => { onSavePersona(persona); setEditing(null); }}
+                        onCancel={() => setEditing(null)}
+                    />
+                ) : (
+                    <div className="space-y-1">
+                        <button onClick={() => onStartChat(null)} className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left hover:bg-black/10 dark:hover:bg-white/10">
+                            <span className="h-9 w-9 rounded-full bg-indigo-500 flex items-center justify-center shrink-0"><SparklesIcon className="h-5 w-5 text-white" /></span>
+                            <span>
+                                <span className="block text-sm font-semibold text-slate-900 dark:text-white">RipoAI</span>
+                                <span className="block text-xs text-gray-500 dark:text-gray-400">The default assistant</span>
+                            </span>
+                        </button>
+                        {personas.map(persona => (
+                            <div key={persona.id} className="group flex items-center gap-1 rounded-lg hover:bg-black/10 dark:hover:bg-white/10">
+                                <button onClick={() => onStartChat(persona)} className="flex-1 min-w-0 flex items-center gap-3 px-3 py-2 text-left">
+                                    <span className="h-9 w-9 rounded-full bg-black/10 dark:bg-white/10 flex items-center justify-center text-xl shrink-0">{persona.avatar}</span>
+                                    <span className="min-w-0">
+                                        <span className="block text-sm font-semibold text-slate-900 dark:text-white truncate">{persona.name}</span>
+                                        <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">{persona.instructions || 'No instructions'}</span>
+                                    </span>
+                                </button>
+                                <div className="hidden group-hover:flex items-center pr-2 gap-1">
+                                    <button onClick={() => setEditing(persona)} className="p-1 text-gray-500 hover:text-slate-900 dark:hover:text-white" title="Edit"><EditIcon className="h-3.5 w-3.5" /></button>
+                                    <button onClick={() => onDeletePersona(persona)} className="p-1 text-gray-500 hover:text-red-400" title="Delete"><TrashIcon className="h-3.5 w-3.5" /></button>
+                                </div>
+                            </div>
+                        ))}
+                        <Button variant="secondary" onClick={() => setEditing(createBlankPersona())} className="w-full justify-start mt-3">
+                            <PlusIcon className="h-5 w-5" /> New Persona
+                        </Button>
+                    </div>
+                )}
+            </GlassCard>
+        </Modal>
+    );
+};
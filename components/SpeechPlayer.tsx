@@ -0,0 +1,127 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { ModelProvider } from '../services/providers';
+import { getSpeech } from '../services/speech';
+import { formatClockTime } from '../services/transcripts';
+import { downloadFile } from '../utils';
+import { Spinner } from './UI';
+import { DownloadIcon, PauseIcon, PlayIcon, StopCircleIcon, XIcon } from './Icons';
+
+interface SpeechPlayerProps {
+    provider: ModelProvider;
+    messageId: string;
+    text: string;
+    voice: string;
+    onVoiceChange: (voice: string) => void;
+    onSynthesized?: () => void; // the model was called, as opposed to replaying cached audio
+    onClose: () => void;
+}
+
+// SpeechPlayer: Reads a reply aloud, with play/pause, stop, seeking and a WAV download. Starts
+// playing as soon as the audio is ready, and again whenever a different voice is picked.
+export const SpeechPlayer: React.FC<SpeechPlayerProps> = ({ provider, messageId, text, voice, onVoiceChange, onSynthesized, onClose }) => {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const [wav, setWav] = useState<{ blob: Blob; url: string } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [currentTime, setCurrentTime] = useState(0);
+    const [duration, setDuration] = useState(0);
+
+    useEffect(() => {
+        let cancelled = false;
+        let url: string | null = null;
+        setWav(null);
+        setError(null);
+        setIsPlaying(false);
+        setCurrentTime(0);
+        setDuration(0);
+        getSpeech(provider, messageId, text, voice, onSynthesized)
+            .then(blob => {
+                if (cancelled) return;
+                url = URL.createObjectURL(blob);
+                setWav({ blob, url });
+            })
+            .catch(err => {
+                console.error("Failed to generate speech:", err);
+                if (!cancelled) setError("Sorry, could not generate audio for this message.");
+            });
+        return () => {
+            cancelled = true;
+            if (url) URL.revokeObjectURL(url);
+        };
+    }, [provider, messageId, text, voice]);
+
+    useEffect(() => {
+        if (wav) audioRef.current?.play().catch(() => {});
+    }, [wav]);
+
+    const handleStop = () => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        audio.pause();
+        audio.currentTime = 0;
+    };
+
+    const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
+        const audio = audioRef.current;
+        if (!audio || !duration) return;
+        const { left, width } = e.currentTarget.getBoundingClientRect();
+        audio.currentTime = Math.min(1, Math.max(0, (e.clientX - left) / width)) * duration;
+    };
+
+    const controlClass = "p-1 rounded-full text-gray-600 dark:text-gray-300 hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-40";
+
+    return (
+        <div className="flex items-center gap-2 mt-2 px-2 py-1.5 rounded-xl bg-black/5 dark:bg-white/5 text-xs text-gray-600 dark:text-gray-300">
+            {wav && (
+                <audio
+                    ref={audioRef}
+                    src={wav.url}
+                    onPlay={() => setIsPlaying(true)}
+                    onPause={() => setIsPlaying(false)}
+                    onTimeUpdate={e => setCurrentTime(e.currentTarget.currentTime)}
+                    onLoadedMetadata={e => setDuration(e.currentTarget.duration)}
+                    className="hidden"
+                />
+            )}
+            {error ? (
+                <span className="flex-1 text-red-500">{error}</span>
+            ) : (
+                <>
+                    {!wav ? (
+                        <span className="p-1"><Spinner className="h-4 w-4" /></span>
+                    ) : (
+                        <button onClick={() => isPlaying ? audioRef.current?.pause() : audioRef.current?.play()} className={controlClass} title={isPlaying ? 'Pause' : 'Play'}>
+                            {isPlaying ? <PauseIcon className="h-4 w-4" /> : <PlayIcon className="h-4 w-4" />}
+                        </button>
+                    )}
+                    <button onClick={handleStop} disabled={!wav} className={controlClass} title="Stop">
+                        <StopCircleIcon className="h-4 w-4" />
+                    </button>
+                    <div onClick={handleSeek} className="flex-1 min-w-16 h-1.5 rounded-full bg-black/10 dark:bg-white/10 cursor-pointer">
+                        <div className="h-full rounded-full bg-indigo-500" style={{ width: `${duration ? (currentTime / duration) * 100 : 0}%` }} />
+                    </div>
+                    <span className="tabular-nums shrink-0">{formatClockTime(currentTime)} / {formatClockTime(duration)}</span>
+                </>
+            )}
+            <select
+                value={voice}
+                onChange={e => onVoiceChange(e.target.value)}
+                className="bg-transparent border-none p-0 pr-5 text-xs focus:ring-0 cursor-pointer"
+                title="Voice"
+            >
+                {provider.voices.map(name => <option key={name} value={name}>{name}</option>)}
+            </select>
+            <button
+                onClick={() => wav && downloadFile(wav.blob, `ripoai-speech-${messageId}-${voice.toLowerCase()}.wav`, 'audio/wav')}
+                disabled={!wav}
+                className={controlClass}
+                title="Download WAV"
+            >
+                <DownloadIcon className="h-4 w-4" />
+            </button>
+            <button onClick={onClose} className={controlClass} title="Close">
+                <XIcon className="h-4 w-4" />
+            </button>
+        </div>
+    );
+};
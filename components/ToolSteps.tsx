@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import type { ToolCall } from '../types';
+import { getToolLabel } from '../services/tools';
+import { ChevronDownIcon, ChevronRightIcon, SettingsIcon } from './Icons';
+
+const formatValue = (value: unknown) => JSON.stringify(value, null, 2);
+
+// One-line preview of a call, e.g. `calculate(expression: "2 + 2")`.
+const describeArgs = (args: Record<string, unknown>) =>
+    Object.entries(args).map(([key, value]) => `${key}: ${JSON.stringify(value)}`).join(', ');
+
+const ToolStep: React.FC<{ call: ToolCall }> = ({ call }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    return (
+        <div className="rounded-lg bg-black/5 dark:bg-black/20 text-xs">
+            <button onClick={() => setIsOpen(open => !open)} className="w-full flex items-center gap-2 px-2 py-1.5 text-left">
+                {isOpen ? <ChevronDownIcon className="h-3.5 w-3.5 shrink-0" /> : <ChevronRightIcon className="h-3.5 w-3.5 shrink-0" />}
+                <SettingsIcon className="h-3.5 w-3.5 shrink-0 text-indigo-500 dark:text-indigo-300" />
+                <span className="font-semibold shrink-0">{getToolLabel(call.name)}</span>
+                <span className="truncate text-gray-500 dark:text-gray-400 font-mono">{describeArgs(call.args)}</span>
+                {call.error && <span className="ml-auto shrink-0 text-red-500">failed</span>}
+            </button>
+            {isOpen && (
+                <div className="px-2 pb-2 space-y-1">
+                    <p className="text-gray-500 dark:text-gray-400">Arguments</p>
+                    <pre className="p-2 rounded bg-black/5 dark:bg-black/30 overflow-x-auto whitespace-pre-wrap">{formatValue(call.args)}</pre>
+                    <p className="text-gray-500 dark:text-gray-400">{call.error ? 'Error' : 'Result'}</p>
+                    <pre className={`p-2 rounded bg-black/5 dark:bg-black/30 overflow-x-auto whitespace-pre-wrap max-h-48 ${call.error ? 'text-red-500' : ''}`}>
+                        {call.error || formatValue(call.result)}
+                    </pre>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// ToolSteps: The local tool calls behind a reply, each collapsed to one line until opened
+export const ToolSteps: React.FC<{ calls: ToolCall[] }> = ({ calls }) => (
+    <div className="space-y-1 mb-2">
+        {calls.map(call => <ToolStep key={call.id} call={call} />)}
+    </div>
+);
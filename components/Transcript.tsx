@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TranscriptSegment } from '../types';
+import { formatClockTime, transcriptToSrt, transcriptToText, transcriptToVtt } from '../services/transcripts';
+import { downloadFile } from '../utils';
+import { useMediaUrl } from './MediaAsset';
+import { Button, Spinner } from './UI';
+import { DownloadIcon } from './Icons';
+
+const SPEAKER_COLORS = ['text-indigo-500 dark:text-indigo-300', 'text-emerald-600 dark:text-emerald-300', 'text-amber-600 dark:text-amber-300', 'text-pink-600 dark:text-pink-300', 'text-sky-600 dark:text-sky-300'];
+
+const EXPORTS: { label: string; extension: string; mimeType: string; format: (segments: TranscriptSegment[]) => string }[] = [
+    { label: 'SRT', extension: 'srt', mimeType: 'application/x-subrip', format: transcriptToSrt },
+    { label: 'VTT', extension: 'vtt', mimeType: 'text/vtt', format: transcriptToVtt },
+    { label: 'TXT', extension: 'txt', mimeType: 'text/plain', format: transcriptToText },
+];
+
+interface TranscriptProps {
+    segments: TranscriptSegment[];
+    media?: { src: string; kind: 'audio' | 'video' }; // the recording that was transcribed, when it's still available
+}
+
+// Transcript: The segments of a transcription next to the recording. The segment being played is
+// highlighted, and clicking a segment plays the recording from there.
+export const Transcript: React.FC<TranscriptProps> = ({ segments, media }) => {
+    const { url, failed } = useMediaUrl(media?.src || '', !!media);
+    const playerRef = useRef<HTMLMediaElement | null>(null);
+    const activeSegmentRef = useRef<HTMLButtonElement>(null);
+    const [currentTime, setCurrentTime] = useState<number | null>(null);
+    const speakers = [...new Set(segments.map(segment => segment.speaker).filter(Boolean))];
+
+    const activeIndex = currentTime === null ? -1 : segments.findIndex(segment => currentTime >= segment.start && currentTime < segment.end);
+
+    useEffect(() => {
+        activeSegmentRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }, [activeIndex]);
+
+    const handleSeek = (segment: TranscriptSegment) => {
+        const player = playerRef.current;
+        if (!player) return;
+        player.currentTime = segment.start;
+        player.play().catch(() => {});
+    };
+
+    const playerProps = {
+        src: url || undefined,
+        controls: true,
+        onTimeUpdate: (e: React.SyntheticEvent<HTMLMediaElement>) => setCurrentTime(e.currentTarget.currentTime),
+        onSeeked: (e: React.SyntheticEvent<HTMLMediaElement>) => setCurrentTime(e.currentTarget.currentTime),
+    };
+
+    return (
+        <div className="mt-2 space-y-2">
+            {media && (failed ? (
+                <p className="text-xs text-gray-500 dark:text-gray-400">The recording is no longer available.</p>
+            ) : !url ? (
+                <Spinner className="h-4 w-4" />
+            ) : media.kind === 'video' ? (
+                <video ref={player => { playerRef.current = player; }} {...playerProps} className="max-h-64 rounded-lg" />
+            ) : (
+                <audio ref={player => { playerRef.current = player; }} {...playerProps} className="w-full" />
+            ))}
+            <div className="max-h-80 overflow-y-auto space-y-0.5 pr-1">
+                {segments.map((segment, index) => (
+                    <button
+                        key={index}
+                        ref={index === activeIndex ? activeSegmentRef : undefined}
+                        onClick={() => handleSeek(segment)}
+                        disabled={!url}
+                        className={`w-full flex gap-3 text-left rounded-lg px-2 py-1 text-sm transition-colors ${index === activeIndex ? 'bg-indigo-500/20' : 'hover:bg-black/5 dark:hover:bg-white/5'} disabled:cursor-default`}
+                    >
+                        <span className="shrink-0 w-12 text-xs text-gray-500 dark:text-gray-400 tabular-nums pt-0.5">{formatClockTime(segment.start)}</span>
+                        <span>
+                            {segment.speaker && <span className={`font-semibold mr-1.5 ${SPEAKER_COLORS[speakers.indexOf(segment.speaker) % SPEAKER_COLORS.length]}`}>{segment.speaker}</span>}
+                            {segment.text}
+                        </span>
+                    </button>
+                ))}
+            </div>
+            <div className="flex items-center gap-2">
+                <span className="text-xs text-gray-500 dark:text-gray-400">Export:</span>
+                {EXPORTS.map(({ label, extension, mimeType, format }) => (
+                    <Button key={label} variant="secondary" onClick={() => downloadFile(format(segments), `ripoai-transcript-${Date.now()}.${extension}`, mimeType)} className="text-xs px-2.5 py-1">
+                        <DownloadIcon className="h-3.5 w-3.5" /> {label}
+                    </Button>
+                ))}
+            </div>
+        </div>
+    );
+};
@@ -103,13 +103,14 @@ interface ModalProps {
   isOpen: boolean;
   onClose?: () => void;
   children: React.ReactNode;
+  className?: string; // width of the dialog
 }
-export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, children }) => {
+export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, children, className = 'max-w-md' }) => {
   if (!isOpen) return null;
 
   return (
     <div className="fixed inset-0 bg-black/60 backdrop-blur-sm flex items-center justify-center z-50" aria-modal="true" role="dialog">
-      <div className="relative w-full max-w-md">
+      <div className={`relative w-full ${className}`}>
         {children}
       </div>
     </div>
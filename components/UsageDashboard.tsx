@@ -0,0 +1,202 @@
+import React, { useMemo, useState } from 'react';
+import type { Conversation } from '../types';
+import {
+    collectUsage, summarizeUsage, summarizeByModel, summarizeConversation, formatCost, totalTokens,
+    DEFAULT_PRICE_TABLE, type ModelPrice, type PriceTable, type UsageTotals,
+} from '../services/usage';
+import { Button, GlassCard, Input } from './UI';
+import { PlusIcon, RefreshIcon, TrashIcon } from './Icons';
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+    { key: 'inputPerMillionTokens', label: 'Input / 1M tokens' },
+    { key: 'outputPerMillionTokens', label: 'Output / 1M tokens' },
+    { key: 'perImage', label: 'Per image' },
+    { key: 'perVideoSecond', label: 'Per video second' },
+    { key: 'perMillionCharacters', label: 'TTS / 1M chars' },
+];
+
+const formatNumber = (value: number) => value.toLocaleString(undefined, { maximumFractionDigits: 1 });
+
+const describeUnits = (totals: UsageTotals): string => [
+    totals.images && `${formatNumber(totals.images)} images`,
+    totals.videoSeconds && `${formatNumber(totals.videoSeconds)}s video`,
+    totals.ttsCharacters && `${formatNumber(totals.ttsCharacters)} TTS chars`,
+].filter(Boolean).join(' · ') || '—';
+
+const StatCard: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+    <GlassCard className="p-4">
+        <p className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">{label}</p>
+        <p className="text-2xl font-bold text-slate-900 dark:text-white mt-1">{value}</p>
+        {detail && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{detail}</p>}
+    </GlassCard>
+);
+
+// PriceTableEditor: Lets users adjust the prices used for cost estimates
+const PriceTableEditor: React.FC<{ prices: PriceTable; onChange: (prices: PriceTable) => void }> = ({ prices, onChange }) => {
+    const [newModel, setNewModel] = useState('');
+
+    const updatePrice = (model: string, key: keyof ModelPrice, value: string) => {
+        const parsed = parseFloat(value);
+        const price = { ...prices[model] };
+        if (value.trim() === '' || isNaN(parsed)) delete price[key];
+        else price[key] = Math.max(0, parsed);
+        onChange({ ...prices, [model]: price });
+    };
+
+    const removeModel = (model: string) => {
+        const { [model]: _removed, ...rest } = prices;
+        onChange(rest);
+    };
+
+    const addModel = () => {
+        const model = newModel.trim();
+        if (!model || prices[model]) return;
+        onChange({ ...prices, [model]: {} });
+        setNewModel('');
+    };
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                        <th className="py-2 pr-3 font-medium">Model</th>
+                        {PRICE_FIELDS.map(field => <th key={field.key} className="py-2 px-1 font-medium whitespace-nowrap">{field.label}</th>)}
+                        <th />
+                    </tr>
+                </thead>
+                <tbody>
+                    {Object.keys(prices).sort().map(model => (
+                        <tr key={model} className="border-t border-black/10 dark:border-white/10">
+                            <td className="py-1.5 pr-3 font-mono text-xs whitespace-nowrap">{model}</td>
+                            {PRICE_FIELDS.map(field => (
+                                <td key={field.key} className="py-1.5 px-1">
+                                    <Input
+                                        type="number"
+                                        min={0}
+                                        step="any"
+                                        value={prices[model][field.key] ?? ''}
+                                        onChange={e => updatePrice(model, field.key, e.target.value)}
+                                        className="w-24 px-2 py-1 text-xs"
+                                    />
+                                </td>
+                            ))}
+                            <td className="py-1.5 pl-1">
+                                <button onClick={() => removeModel(model)} className="p-1 text-gray-500 hover:text-red-400" title="Remove"><TrashIcon className="h-3.5 w-3.5" /></button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+            <div className="flex items-center gap-2 mt-3">
+                <Input
+                    value={newModel}
+                    onChange={e => setNewModel(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter') addModel(); }}
+                    placeholder="Model id, e.g. llama3.1"
+                    className="max-w-xs px-3 py-1.5 text-sm"
+                />
+                <Button variant="secondary" onClick={addModel} disabled={!newModel.trim()} className="text-sm px-3 py-1.5"><PlusIcon className="h-4 w-4" /> Add</Button>
+                <Button variant="ghost" onClick={() => onChange(DEFAULT_PRICE_TABLE)} className="text-sm px-3 py-1.5 ml-auto"><RefreshIcon className="h-4 w-4" /> Reset to defaults</Button>
+            </div>
+        </div>
+    );
+};
+
+interface UsageDashboardProps {
+    conversations: Conversation[];
+    prices: PriceTable;
+    onPricesChange: (prices: PriceTable) => void;
+    onOpenConversation: (conversationId: string) => void;
+}
+
+// UsageDashboard: Token, media and estimated cost totals across all of the user's conversations
+export const UsageDashboard: React.FC<UsageDashboardProps> = ({ conversations, prices, onPricesChange, onOpenConversation }) => {
+    const records = useMemo(() => conversations.flatMap(c => collectUsage(c.messages)), [conversations]);
+    const totals = useMemo(() => summarizeUsage(records, prices), [records, prices]);
+    const byModel = useMemo(() => summarizeByModel(records, prices), [records, prices]);
+    const byConversation = useMemo(() => conversations
+        .map(conversation => ({ conversation, totals: summarizeConversation(conversation, prices) }))
+        .filter(({ totals }) => totalTokens(totals) > 0 || totals.cost > 0 || describeUnits(totals) !== '—')
+        .sort((a, b) => b.totals.cost - a.totals.cost || totalTokens(b.totals) - totalTokens(a.totals)),
+    [conversations, prices]);
+
+    return (
+        <div className="p-6 space-y-6 max-w-5xl mx-auto">
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                <StatCard
+                    label="Estimated cost"
+                    value={formatCost(totals.cost)}
+                    detail={totals.unpricedModels.length > 0 ? `Excludes unpriced: ${totals.unpricedModels.join(', ')}` : undefined}
+                />
+                <StatCard label="Input tokens" value={formatNumber(totals.promptTokens)} />
+                <StatCard label="Output tokens" value={formatNumber(totals.outputTokens)} detail={`+ ${formatNumber(totals.thinkingTokens)} thinking`} />
+                <StatCard label="Media" value={formatNumber(totals.images)} detail={describeUnits(totals)} />
+            </div>
+
+            <GlassCard>
+                <h2 className="font-semibold text-slate-900 dark:text-white mb-3">By model</h2>
+                {byModel.length === 0 ? (
+                    <p className="text-sm text-gray-500">No usage recorded yet.</p>
+                ) : (
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                                <th className="py-2 font-medium">Model</th>
+                                <th className="py-2 font-medium text-right">Tokens</th>
+                                <th className="py-2 font-medium text-right">Media</th>
+                                <th className="py-2 font-medium text-right">Est. cost</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {byModel.map(({ model, totals: modelTotals }) => (
+                                <tr key={model} className="border-t border-black/10 dark:border-white/10">
+                                    <td className="py-1.5 font-mono text-xs">{model}</td>
+                                    <td className="py-1.5 text-right">{formatNumber(totalTokens(modelTotals))}</td>
+                                    <td className="py-1.5 text-right">{describeUnits(modelTotals)}</td>
+                                    <td className="py-1.5 text-right">{modelTotals.unpricedModels.length > 0 ? 'no price' : formatCost(modelTotals.cost)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </GlassCard>
+
+            <GlassCard>
+                <h2 className="font-semibold text-slate-900 dark:text-white mb-3">By conversation</h2>
+                {byConversation.length === 0 ? (
+                    <p className="text-sm text-gray-500">No usage recorded yet.</p>
+                ) : (
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-xs text-gray-500 dark:text-gray-400">
+                                <th className="py-2 font-medium">Conversation</th>
+                                <th className="py-2 font-medium text-right">Tokens</th>
+                                <th className="py-2 font-medium text-right">Media</th>
+                                <th className="py-2 font-medium text-right">Est. cost</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {byConversation.map(({ conversation, totals: convTotals }) => (
+                                <tr key={conversation.id} className="border-t border-black/10 dark:border-white/10">
+                                    <td className="py-1.5">
+                                        <button onClick={() => onOpenConversation(conversation.id)} className="text-left hover:underline truncate max-w-xs block">{conversation.title}</button>
+                                    </td>
+                                    <td className="py-1.5 text-right">{formatNumber(totalTokens(convTotals))}</td>
+                                    <td className="py-1.5 text-right">{describeUnits(convTotals)}</td>
+                                    <td className="py-1.5 text-right">{formatCost(convTotals.cost)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </GlassCard>
+
+            <GlassCard>
+                <h2 className="font-semibold text-slate-900 dark:text-white mb-1">Price table</h2>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">Estimates only, in US dollars. Check your provider's pricing page and adjust as needed.</p>
+                <PriceTableEditor prices={prices} onChange={onPricesChange} />
+            </GlassCard>
+        </div>
+    );
+};
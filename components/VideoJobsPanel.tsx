@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import type { VideoJob } from '../types';
+import { Button, GlassCard, Spinner } from './UI';
+import { CheckIcon, VideoIcon, XIcon } from './Icons';
+
+// Veo reports no progress of its own, so it's estimated from a typical generation time and
+// held below 100% until the job is actually done.
+const TYPICAL_VIDEO_MS = 2 * 60 * 1000;
+const estimateProgress = (elapsedMs: number) => Math.min(0.95, elapsedMs / TYPICAL_VIDEO_MS);
+
+const formatElapsed = (ms: number) => {
+    const seconds = Math.max(0, Math.floor(ms / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const VideoJobRow: React.FC<{ job: VideoJob; now: number; onOpen: () => void; onCancel: () => void; onDismiss: () => void }> = ({ job, now, onOpen, onCancel, onDismiss }) => {
+    const isRunning = job.status === 'running';
+    const progress = job.status === 'done' ? 1 : estimateProgress(now - job.createdAt);
+    return (
+        <div className="space-y-1">
+            <div className="flex items-center gap-2 text-sm">
+                {isRunning ? <Spinner className="h-3.5 w-3.5 shrink-0" />
+                    : job.status === 'done' ? <CheckIcon className="h-3.5 w-3.5 shrink-0 text-green-500" />
+                    : <XIcon className="h-3.5 w-3.5 shrink-0 text-red-500" />}
+                <button onClick={onOpen} className="flex-1 truncate text-left hover:underline" title={job.prompt}>{job.prompt || 'Video'}</button>
+                {isRunning && <span className="text-xs text-gray-500 dark:text-gray-400 tabular-nums">{formatElapsed(now - job.createdAt)}</span>}
+                <Button variant="ghost" onClick={isRunning ? onCancel : onDismiss} className="p-1" title={isRunning ? 'Cancel' : 'Dismiss'}>
+                    <XIcon className="h-3.5 w-3.5" />
+                </Button>
+            </div>
+            {job.status === 'failed' ? (
+                <p className="text-xs text-red-500 truncate" title={job.error}>{job.error}</p>
+            ) : (
+                <div className="h-1 rounded-full bg-black/10 dark:bg-white/10 overflow-hidden">
+                    <div className={`h-full rounded-full ${job.status === 'done' ? 'bg-green-500' : 'bg-indigo-500'} transition-all duration-1000`} style={{ width: `${progress * 100}%` }} />
+                </div>
+            )}
+        </div>
+    );
+};
+
+interface VideoJobsPanelProps {
+    jobs: VideoJob[];
+    onOpen: (job: VideoJob) => void;
+    onCancel: (job: VideoJob) => void;
+    onDismiss: (job: VideoJob) => void;
+}
+
+// VideoJobsPanel: Video generations in progress across all conversations, in the corner of the screen
+export const VideoJobsPanel: React.FC<VideoJobsPanelProps> = ({ jobs, onOpen, onCancel, onDismiss }) => {
+    const [now, setNow] = useState(Date.now());
+    const hasRunningJobs = jobs.some(job => job.status === 'running');
+
+    useEffect(() => {
+        if (!hasRunningJobs) return;
+        const timer = window.setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [hasRunningJobs]);
+
+    if (jobs.length === 0) return null;
+
+    return (
+        <GlassCard className="fixed bottom-4 right-4 z-40 w-80 p-3 space-y-3">
+            <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 flex items-center gap-1.5">
+                <VideoIcon className="h-3.5 w-3.5" /> Video queue
+            </p>
+            {jobs.map(job => (
+                <VideoJobRow key={job.id} job={job} now={now} onOpen={() => onOpen(job)} onCancel={() => onCancel(job)} onDismiss={() => onDismiss(job)} />
+            ))}
+        </GlassCard>
+    );
+};
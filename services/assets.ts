@@ -0,0 +1,175 @@
+import { ref, uploadBytes, getBlob } from 'firebase/storage';
+import { storage } from './firebase';
+import { getLocalAsset, putLocalAsset, getUnuploadedAssetIds, transferLocalAssets, GUEST_OWNER_ID } from './indexedDb';
+import type { Message } from '../types';
+import { fileToDataUrl } from '../utils';
+
+// Media is kept out of conversation documents. Messages hold an "asset:<id>" reference instead;
+// the bytes live in IndexedDB on this device and, for signed-in users, in Firebase Storage at
+// users/{uid}/assets/{id} so other devices can fetch them. Each local asset records who stored
+// it, so only the signed-in user's own media is ever uploaded to their account.
+const ASSET_REF_PREFIX = 'asset:';
+const MEDIA_FIELDS = ['image', 'video', 'audioSrc', 'generatedImage', 'generatedVideo'] as const;
+const MEDIA_LIST_FIELDS = ['generatedImages'] as const;
+
+let remoteUserId: string | null = null;
+const storedRefs = new Map<string, Promise<string>>(); // SHA-256 of a source data:/blob: URL -> asset ref
+const resolvedUrls = new Map<string, Promise<string>>(); // asset ref -> object URL
+
+export const isAssetRef = (url: string | undefined): url is string => !!url && url.startsWith(ASSET_REF_PREFIX);
+
+const remotePath = (userId: string, id: string) => ref(storage, `users/${userId}/assets/${id}`);
+
+const uploadAsset = async (id: string) => {
+  const userId = remoteUserId;
+  const record = await getLocalAsset(id);
+  if (!userId || !record || record.uploaded || record.ownerId !== userId) return;
+  await uploadBytes(remotePath(userId, id), record.blob, { contentType: record.blob.type });
+  await putLocalAsset({ ...record, uploaded: true });
+};
+
+// Uploads whatever was stored while signed out or offline.
+export const uploadPendingAssets = async () => {
+  if (!remoteUserId || !navigator.onLine) return;
+  for (const id of await getUnuploadedAssetIds(remoteUserId)) {
+    try {
+      await uploadAsset(id);
+    } catch (error) {
+      console.warn("Asset upload failed, will retry later:", error);
+      return;
+    }
+  }
+};
+
+// Called when the session changes. Signed-in users take over the media of the guest chats they
+// adopt, and get their local media backed up to Storage.
+export const setAssetStoreUser = (userId: string | null) => {
+  remoteUserId = userId;
+  if (!userId) return;
+  transferLocalAssets(GUEST_OWNER_ID, userId)
+    .then(() => uploadPendingAssets())
+    .catch(error => console.warn("Could not adopt guest media:", error));
+};
+
+if (typeof window !== 'undefined') window.addEventListener('online', () => { uploadPendingAssets(); });
+
+// Media URLs are remembered by their hash: keyed by the URLs themselves, the map would keep
+// every data: URL of the session in memory.
+const hashUrl = async (url: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(url));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Saves the media behind a data: or blob: URL and returns a reference to it. The same URL is
+// only ever stored once per session, however often the conversation holding it is saved.
+export const storeMediaUrl = async (url: string): Promise<string> => {
+  const key = await hashUrl(url);
+  let assetRef = storedRefs.get(key);
+  if (!assetRef) {
+    assetRef = (async () => {
+      const blob = await (await fetch(url)).blob();
+      const id = crypto.randomUUID();
+      await putLocalAsset({ id, ownerId: remoteUserId ?? GUEST_OWNER_ID, blob, uploaded: false });
+      uploadAsset(id).catch(error => console.warn("Asset upload failed, will retry later:", error));
+      const newRef = ASSET_REF_PREFIX + id;
+      resolvedUrls.set(newRef, Promise.resolve(URL.createObjectURL(blob))); // saves reading it back
+      return newRef;
+    })();
+    storedRefs.set(key, assetRef);
+    assetRef.catch(() => storedRefs.delete(key)); // allow a retry, e.g. once there is room again
+  }
+  return assetRef;
+};
+
+// Turns an asset reference into a URL the browser can load. Any other URL is returned as is.
+export const resolveMediaUrl = (url: string): Promise<string> => {
+  if (!isAssetRef(url)) return Promise.resolve(url);
+  let resolved = resolvedUrls.get(url);
+  if (!resolved) {
+    resolved = (async () => {
+      const id = url.slice(ASSET_REF_PREFIX.length);
+      const record = await getLocalAsset(id);
+      if (record) return URL.createObjectURL(record.blob);
+      const userId = remoteUserId;
+      if (!userId) throw new Error("This media isn't available on this device.");
+      const blob = await getBlob(remotePath(userId, id));
+      await putLocalAsset({ id, ownerId: userId, blob, uploaded: true });
+      return URL.createObjectURL(blob);
+    })();
+    resolvedUrls.set(url, resolved);
+    resolved.catch(() => resolvedUrls.delete(url)); // allow a retry, e.g. once back online
+  }
+  return resolved;
+};
+
+const externalizeUrl = async (url: string | undefined): Promise<string | undefined> => {
+  if (!url || !(url.startsWith('data:') || url.startsWith('blob:'))) return url;
+  try {
+    return await storeMediaUrl(url);
+  } catch (error) {
+    // Blob URLs saved before assets existed are gone after a reload; leave them as they are.
+    console.warn("Could not store media:", error);
+    return url;
+  }
+};
+
+// Returns `messages` (including inactive branches) with inline media swapped for asset references.
+export const externalizeMedia = async (messages: Message[]): Promise<Message[]> =>
+  Promise.all(messages.map(async message => {
+    const updated: Message = { ...message };
+    for (const field of MEDIA_FIELDS) {
+      if (message[field]) updated[field] = await externalizeUrl(message[field]);
+    }
+    for (const field of MEDIA_LIST_FIELDS) {
+      if (message[field]) updated[field] = (await Promise.all(message[field]!.map(externalizeUrl))) as string[];
+    }
+    if (message.editHistory) {
+      updated.editHistory = await Promise.all(message.editHistory.map(async step => ({ ...step, image: (await externalizeUrl(step.image))! })));
+    }
+    if (message.attachments) {
+      updated.attachments = await Promise.all(message.attachments.map(async attachment => ({ ...attachment, src: (await externalizeUrl(attachment.src))! })));
+    }
+    if (message.branches) {
+      updated.branches = await Promise.all(message.branches.map(async branch => ({ messages: await externalizeMedia(branch.messages) })));
+    }
+    return updated;
+  }));
+
+const inlineUrl = async (url: string | undefined): Promise<string | undefined> => {
+  if (!url || url.startsWith('data:')) return url;
+  try {
+    const blob = await (await fetch(await resolveMediaUrl(url))).blob();
+    return await fileToDataUrl(new File([blob], 'media', { type: blob.type }));
+  } catch (error) {
+    console.warn("Could not load media for export:", error);
+    return undefined;
+  }
+};
+
+// The reverse of externalizeMedia: every reference becomes a data: URL, for self-contained exports.
+// Media that can't be loaded any more is left out.
+export const inlineMedia = async (messages: Message[]): Promise<Message[]> =>
+  Promise.all(messages.map(async message => {
+    const updated: Message = { ...message };
+    for (const field of MEDIA_FIELDS) {
+      if (message[field]) updated[field] = await inlineUrl(message[field]);
+    }
+    for (const field of MEDIA_LIST_FIELDS) {
+      if (message[field]) updated[field] = (await Promise.all(message[field]!.map(inlineUrl))).filter((url): url is string => !!url);
+    }
+    if (message.editHistory) {
+      // Steps refer to each other by index, so they're all kept even if an image is gone.
+      updated.editHistory = await Promise.all(message.editHistory.map(async step => ({ ...step, image: (await inlineUrl(step.image)) ?? step.image })));
+    }
+    if (message.attachments) {
+      const attachments = await Promise.all(message.attachments.map(async attachment => {
+        const src = await inlineUrl(attachment.src);
+        return src ? { ...attachment, src } : null;
+      }));
+      updated.attachments = attachments.filter(attachment => attachment !== null);
+    }
+    if (message.branches) {
+      updated.branches = await Promise.all(message.branches.map(async branch => ({ messages: await inlineMedia(branch.messages) })));
+    }
+    return updated;
+  }));
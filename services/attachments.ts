@@ -0,0 +1,102 @@
+import type { Attachment } from '../types';
+import { fileToBase64, fileToDataUrl, urlToInlineData } from '../utils';
+
+// Files attached to chat messages: images, PDFs, and text such as Markdown, CSV, JSON or source
+// code. Images and PDFs reach the model as inline data; text files are read and sent as text, so
+// every provider can use them and the model sees the file name next to the contents.
+
+export const MAX_ATTACHMENTS = 10;
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+// Inline request data is capped at ~20 MB and base64 adds a third, so this is what one message's
+// files may add up to.
+export const MAX_TOTAL_ATTACHMENT_SIZE = 15 * 1024 * 1024;
+
+// Browsers report no type, or a wrong one (".ts" as an MPEG stream), for many text formats, so the
+// extension decides for these.
+const TEXT_EXTENSIONS: Record<string, string> = {
+  txt: 'text/plain', log: 'text/plain', md: 'text/markdown', markdown: 'text/markdown',
+  csv: 'text/csv', tsv: 'text/tab-separated-values', json: 'application/json', xml: 'application/xml',
+  yaml: 'text/yaml', yml: 'text/yaml', toml: 'text/plain', ini: 'text/plain', env: 'text/plain',
+  html: 'text/html', css: 'text/css', js: 'text/javascript', jsx: 'text/javascript', mjs: 'text/javascript',
+  ts: 'text/x-typescript', tsx: 'text/x-typescript', py: 'text/x-python', rb: 'text/x-ruby', go: 'text/x-go',
+  rs: 'text/x-rust', java: 'text/x-java', kt: 'text/x-kotlin', swift: 'text/x-swift', c: 'text/x-c',
+  h: 'text/x-c', cpp: 'text/x-c++', hpp: 'text/x-c++', cs: 'text/x-csharp', php: 'text/x-php',
+  sh: 'text/x-shellscript', sql: 'text/x-sql', r: 'text/x-r', lua: 'text/x-lua', dart: 'text/x-dart',
+  vue: 'text/plain', svelte: 'text/plain',
+};
+
+const CODE_EXTENSIONS = new Set(['js', 'jsx', 'mjs', 'ts', 'tsx', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'swift', 'c', 'h', 'cpp', 'hpp', 'cs', 'php', 'sh', 'sql', 'r', 'lua', 'dart', 'vue', 'svelte', 'html', 'css']);
+
+// What the file input offers in the chat composer.
+export const ATTACHMENT_ACCEPT = ['image/*', 'application/pdf', 'text/*', ...Object.keys(TEXT_EXTENSIONS).map(extension => `.${extension}`)].join(',');
+
+const extensionOf = (name: string) => name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+
+export const getAttachmentMimeType = (file: File): string =>
+  TEXT_EXTENSIONS[extensionOf(file.name)] || file.type || 'application/octet-stream';
+
+export const isTextAttachment = (attachment: Pick<Attachment, 'mimeType'>): boolean =>
+  attachment.mimeType.startsWith('text/') || attachment.mimeType === 'application/json' || attachment.mimeType === 'application/xml';
+
+const isInlineAttachment = (mimeType: string) => mimeType.startsWith('image/') || mimeType === 'application/pdf';
+
+// Returns why `file` can't be attached, or null when it can.
+export const validateAttachment = (file: File): string | null => {
+  const mimeType = getAttachmentMimeType(file);
+  if (!isTextAttachment({ mimeType }) && !isInlineAttachment(mimeType)) return `${file.name} isn't a supported file type.`;
+  if (file.size > MAX_ATTACHMENT_SIZE) return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}.`;
+  return null;
+};
+
+// Builds the stored form of an attached file. The source is a data: URL until the message is saved.
+export const createAttachment = async (file: File): Promise<Attachment> => ({
+  name: file.name,
+  mimeType: getAttachmentMimeType(file),
+  size: file.size,
+  src: await fileToDataUrl(file),
+});
+
+// A short type label for the chips in the composer and on messages.
+export const describeAttachmentType = (attachment: Pick<Attachment, 'name' | 'mimeType'>): string => {
+  const extension = extensionOf(attachment.name);
+  if (attachment.mimeType.startsWith('image/')) return 'Image';
+  if (attachment.mimeType === 'application/pdf') return 'PDF';
+  if (extension === 'md' || extension === 'markdown') return 'Markdown';
+  if (extension === 'csv' || extension === 'tsv') return 'CSV';
+  if (extension === 'json') return 'JSON';
+  if (CODE_EXTENSIONS.has(extension)) return extension.toUpperCase();
+  return 'Text';
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(bytes < 10 * 1024 ? 1 : 0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const textPart = (name: string, content: string) => ({ text: `[Attached file: ${name}]\n${content}` });
+
+// Inline parts carry the file name next to the data for providers that take one, such as OpenAI's
+// file parts. The Gemini SDK only sends the fields it knows, so it never reaches Gemini.
+const inlinePart = (name: string, mimeType: string, data: string) => ({ inlineData: { mimeType, data }, fileName: name });
+
+// The request part for a file attached to the message being sent.
+export const fileToPart = async (file: File): Promise<any> => {
+  const mimeType = getAttachmentMimeType(file);
+  if (isTextAttachment({ mimeType })) return textPart(file.name, await file.text());
+  return inlinePart(file.name, mimeType, await fileToBase64(file));
+};
+
+// The request part for an attachment of an earlier message, whose source has been resolved to a
+// loadable URL, with its size in characters for the history media budget. Null if it can't be read.
+export const attachmentToPart = async (attachment: Attachment, url: string): Promise<{ part: any; size: number } | null> => {
+  if (isTextAttachment(attachment)) {
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const content = await response.text();
+    return { part: textPart(attachment.name, content), size: content.length };
+  }
+  const inlineData = await urlToInlineData(url);
+  if (!inlineData) return null;
+  return { part: inlinePart(attachment.name, attachment.mimeType, inlineData.data), size: inlineData.data.length };
+};
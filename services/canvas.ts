@@ -0,0 +1,204 @@
+import type { CodeFile, Message, PreviewCapabilities } from '../types';
+
+// A Canvas project is the code replies of a conversation. Each reply holds every file of one
+// version, and a new prompt edits the latest version rather than starting over.
+
+const LANGUAGES: Record<string, string> = { html: 'html', htm: 'html', css: 'css', js: 'javascript', mjs: 'javascript', json: 'json' };
+
+export const getFileLanguage = (name: string): string => LANGUAGES[name.split('.').pop()?.toLowerCase() || ''] || 'plaintext';
+
+// The files of a code reply. Replies from before projects had files hold a single HTML document.
+export const getCodeFiles = (message: Pick<Message, 'codeFiles' | 'generatedCode'>): CodeFile[] | undefined => {
+  if (message.codeFiles?.length) return message.codeFiles;
+  return message.generatedCode ? [{ name: 'index.html', content: message.generatedCode }] : undefined;
+};
+
+export const findLatestCodeFiles = (messages: Message[]): CodeFile[] | undefined => {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const files = messages[i].role === 'model' ? getCodeFiles(messages[i]) : undefined;
+    if (files) return files;
+  }
+  return undefined;
+};
+
+// The project as plain text, for prompts, search and exports.
+export const formatCodeFiles = (files: CodeFile[]): string =>
+  files.map(file => `--- ${file.name} ---\n${file.content}`).join('\n\n');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Inserts `tag` before `closingTag`, or at the end when the document doesn't have one.
+const insertBefore = (html: string, closingTag: string, tag: string) => {
+  const index = html.toLowerCase().lastIndexOf(closingTag);
+  return index === -1 ? html + tag : html.slice(0, index) + tag + html.slice(index);
+};
+
+// Builds the single HTML document CodePreview renders. Stylesheets and scripts are inlined where
+// index.html links them, or added to the end of <head> and <body> when it doesn't.
+export const assembleProject = (files: CodeFile[]): string => {
+  const page = files.find(file => file.name.toLowerCase() === 'index.html') || files.find(file => getFileLanguage(file.name) === 'html');
+  let html = page?.content ?? '<!DOCTYPE html>\n<html>\n<head>\n</head>\n<body>\n</body>\n</html>';
+
+  for (const file of files) {
+    const language = getFileLanguage(file.name);
+    const name = escapeRegExp(file.name);
+    if (language === 'css') {
+      const style = `<style>\n${file.content.replace(/<\/style/gi, '<\\/style')}\n</style>`;
+      const link = new RegExp(`<link\\b[^>]*href=["'](?:\\./)?${name}["'][^>]*>`, 'i');
+      html = link.test(html) ? html.replace(link, () => style) : insertBefore(html, '</head>', style);
+    } else if (language === 'javascript') {
+      const script = new RegExp(`<script\\b([^>]*?)\\s*src=["'](?:\\./)?${name}["']([^>]*)>\\s*</script>`, 'i');
+      const body = file.content.replace(/<\/script/gi, '<\\/script');
+      html = script.test(html)
+        ? html.replace(script, (_, before: string, after: string) => `<script${before}${after}>\n${body}\n</script>`)
+        : insertBefore(html, '</body>', `<script>\n${body}\n</script>`);
+    }
+  }
+  return html;
+};
+
+// --- Preview runtime ---
+// Previews run in a sandboxed frame without allow-same-origin, so the page gets an opaque origin
+// and can't reach the app's storage or auth session. A CSP meta tag limits what it may load, and
+// the page reports its console output, uncaught errors and height back with postMessage.
+
+export const PREVIEW_MESSAGE_CHANNEL = 'ripoai-preview';
+
+export const DEFAULT_PREVIEW_CAPABILITIES: PreviewCapabilities = { forms: false, modals: false, network: false };
+
+export interface ConsoleEntry {
+  level: 'log' | 'info' | 'warn' | 'error' | 'debug';
+  text: string;
+}
+
+// The frame's sandbox tokens. Popups, top-level navigation and same-origin access are never allowed.
+export const getPreviewSandbox = (capabilities: PreviewCapabilities): string =>
+  ['allow-scripts', capabilities.forms && 'allow-forms', capabilities.modals && 'allow-modals'].filter(Boolean).join(' ');
+
+const buildPreviewCsp = ({ network }: PreviewCapabilities): string => {
+  const remote = network ? ' https:' : '';
+  return [
+    "default-src 'none'",
+    `script-src 'unsafe-inline'${remote}`,
+    `style-src 'unsafe-inline'${remote}`,
+    `img-src data: blob:${remote}`,
+    `font-src data:${remote}`,
+    `media-src data: blob:${remote}`,
+    `connect-src ${network ? 'https:' : "'none'"}`,
+    `form-action ${network ? 'https:' : "'none'"}`,
+    "base-uri 'none'",
+  ].join('; ');
+};
+
+const PREVIEW_BRIDGE = `<script>
+(() => {
+  const post = message => {
+    try { parent.postMessage({ channel: '${PREVIEW_MESSAGE_CHANNEL}', ...message }, '*'); } catch {}
+  };
+  const format = value => {
+    if (value instanceof Error) return value.stack || String(value);
+    if (typeof value === 'string') return value;
+    try { return JSON.stringify(value) ?? String(value); } catch { return String(value); }
+  };
+  const send = (level, args) => post({ type: 'console', level, text: args.map(format).join(' ') });
+  ['log', 'info', 'warn', 'error', 'debug'].forEach(level => {
+    const original = console[level];
+    console[level] = (...args) => { send(level, args); original.apply(console, args); };
+  });
+  addEventListener('error', event => send('error', [event.error || \`\${event.message} (line \${event.lineno})\`]));
+  addEventListener('unhandledrejection', event => send('error', ['Unhandled promise rejection:', event.reason]));
+  addEventListener('securitypolicyviolation', event => send('warn', [\`Blocked \${event.blockedURI || 'inline code'} (\${event.violatedDirective}). Allow network access in the preview settings if the page needs it.\`]));
+  const reportHeight = () => post({ type: 'resize', height: Math.ceil(document.documentElement.getBoundingClientRect().height) });
+  new ResizeObserver(reportHeight).observe(document.documentElement);
+  addEventListener('load', reportHeight);
+})();
+</script>`;
+
+// The document the preview frame loads: the project with the CSP and the bridge put first, so they
+// apply before any of the page's own markup.
+export const buildPreviewDocument = (html: string, capabilities: PreviewCapabilities): string => {
+  const header = `<meta http-equiv="Content-Security-Policy" content="${buildPreviewCsp(capabilities)}">${PREVIEW_BRIDGE}`;
+  const doctype = /^\s*<!doctype[^>]*>/i.exec(html);
+  return doctype ? doctype[0] + header + html.slice(doctype[0].length) : header + html;
+};
+
+// --- Version diffs ---
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export interface FileDiff {
+  name: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  lines: DiffLine[];
+}
+
+// Above this many line pairs the LCS table gets too big; the changed block is shown as replaced.
+const MAX_DIFF_CELLS = 4_000_000;
+
+// A line diff based on the longest common subsequence, after trimming the lines both sides share
+// at the start and the end.
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) { endA--; endB--; }
+
+  const same = (text: string): DiffLine => ({ type: 'same', text });
+  const removed = (text: string): DiffLine => ({ type: 'removed', text });
+  const added = (text: string): DiffLine => ({ type: 'added', text });
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+  const middle: DiffLine[] = [];
+
+  if (n * m > MAX_DIFF_CELLS) {
+    middle.push(...midA.map(removed), ...midB.map(added));
+  } else {
+    // lengths[i * (m + 1) + j] is the LCS length of midA[i..] and midB[j..].
+    const width = m + 1;
+    const lengths = new Uint32Array((n + 1) * width);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * width + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        middle.push(same(midA[i++]));
+        j++;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        middle.push(removed(midA[i++]));
+      } else {
+        middle.push(added(midB[j++]));
+      }
+    }
+    middle.push(...midA.slice(i).map(removed), ...midB.slice(j).map(added));
+  }
+  return [...a.slice(0, start).map(same), ...middle, ...a.slice(endA).map(same)];
+};
+
+export const diffProjects = (before: CodeFile[], after: CodeFile[]): FileDiff[] => {
+  const diffs: FileDiff[] = after.map(file => {
+    const previous = before.find(candidate => candidate.name === file.name);
+    if (!previous) return { name: file.name, status: 'added', lines: file.content.split('\n').map(text => ({ type: 'added', text })) };
+    const lines = diffLines(previous.content, file.content);
+    return { name: file.name, status: lines.some(line => line.type !== 'same') ? 'changed' : 'unchanged', lines };
+  });
+  for (const file of before) {
+    if (!after.some(candidate => candidate.name === file.name)) {
+      diffs.push({ name: file.name, status: 'removed', lines: file.content.split('\n').map(text => ({ type: 'removed', text })) });
+    }
+  }
+  return diffs;
+};
@@ -0,0 +1,125 @@
+import type { ContextSummary, Message, ModelId } from '../types';
+import type { ModelProvider } from './providers';
+import { formatCodeFiles, getCodeFiles } from './canvas';
+import { isTextAttachment } from './attachments';
+
+// Keeps chat requests within a token budget. When the history outgrows it, the oldest turns are
+// folded into a rolling summary (stored on the Conversation) that is sent in their place.
+
+export const DEFAULT_CONTEXT_BUDGET = 32_000;
+export const CONTEXT_BUDGET_OPTIONS = [8_000, 32_000, 128_000, 512_000];
+
+const CHARS_PER_TOKEN = 4;
+const MEDIA_TOKENS = 258; // what Gemini counts for an image; used for every attachment
+const RECENT_SHARE = 0.5; // after summarizing, the turns kept in full fill about this share of the budget
+const MIN_RECENT_MESSAGES = 2;
+
+export const estimateTextTokens = (text = ''): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+export const estimateMessageTokens = (message: Message): number => {
+  const media = [message.image, message.video, message.audioSrc, message.generatedImage].filter(Boolean).length;
+  const codeFiles = getCodeFiles(message);
+  // Text files are sent as their contents, roughly one character per byte.
+  const attachmentTokens = (message.attachments || []).reduce((total, attachment) =>
+    total + (isTextAttachment(attachment) ? Math.ceil(attachment.size / CHARS_PER_TOKEN) : MEDIA_TOKENS), 0);
+  return estimateTextTokens(message.text) + estimateTextTokens(codeFiles && formatCodeFiles(codeFiles)) + media * MEDIA_TOKENS + attachmentTokens;
+};
+
+export const estimateHistoryTokens = (messages: Message[]): number =>
+  messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+
+// Index of the last message covered by `summary`, or -1 when the summary doesn't apply to
+// `messages` (e.g. the user edited a turn it covers and the thread forked).
+export const findSummaryEnd = (messages: Message[], summary?: ContextSummary): number =>
+  summary ? messages.findIndex(message => message.id === summary.throughMessageId) : -1;
+
+// The system instruction to send once earlier turns have been replaced by a summary.
+export const withContextSummary = (systemInstruction: string | undefined, summary?: ContextSummary): string | undefined => {
+  if (!summary) return systemInstruction;
+  const note = `Earlier messages in this conversation have been summarized to save space:\n\n${summary.text}`;
+  return systemInstruction?.trim() ? `${systemInstruction}\n\n${note}` : note;
+};
+
+// What every provider tells the model when folding turns into the summary.
+export const SUMMARY_INSTRUCTION = "You condense chat history so an assistant can continue the conversation without the original messages. Write one updated summary that merges any earlier summary with the new messages. Keep facts, names, numbers, decisions, open questions, the user's stated preferences and any code or data the conversation still depends on. Drop pleasantries. Write in the conversation's language, in plain prose or short bullet points, under 400 words.";
+
+// The text to summarize: the previous summary, if any, followed by a transcript of `messages`.
+export const buildSummaryRequest = (previousSummary: string | undefined, messages: Message[]): string => {
+  const transcript = messages
+    .filter(m => m.text || getCodeFiles(m))
+    .map(m => {
+      const attachments = [m.image && '[image]', m.video && '[video]', m.audioSrc && '[audio]', m.generatedImage && '[generated image]', m.generatedVideo && '[generated video]'].filter(Boolean).join(' ');
+      const codeFiles = getCodeFiles(m);
+      const code = codeFiles ? `\n[generated code]\n${formatCodeFiles(codeFiles)}` : '';
+      return `${m.role === 'user' ? 'User' : 'Assistant'}: ${attachments} ${m.text}${code}`.trim();
+    })
+    .join('\n\n');
+  return previousSummary
+    ? `Summary of the conversation so far:\n${previousSummary}\n\nLater messages:\n${transcript}`
+    : transcript;
+};
+
+export interface PreparedContext {
+  history: Message[]; // the turns to send in full
+  summary?: ContextSummary; // the summary to send with them
+  tokens: number;
+}
+
+interface PrepareContextOptions {
+  model: ModelId;
+  prompt: string;
+  systemInstruction?: string;
+  summary?: ContextSummary;
+  budget: number;
+  signal?: AbortSignal;
+}
+
+const countTokens = async (provider: ModelProvider, history: Message[], model: ModelId, signal?: AbortSignal): Promise<number> => {
+  try {
+    return await provider.countTokens(history, model, signal);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.warn("Token counting failed, using an estimate:", error);
+    return estimateHistoryTokens(history);
+  }
+};
+
+// Works out what to send for the next chat turn. Turns already covered by `summary` are left out;
+// if the rest still exceeds the budget, older turns are summarized until the newest ones fit in
+// about half of it. The returned summary differs from `options.summary` when that happened.
+export const prepareContext = async (provider: ModelProvider, history: Message[], options: PrepareContextOptions): Promise<PreparedContext> => {
+  const { model, prompt, systemInstruction, budget, signal } = options;
+  const summaryEnd = findSummaryEnd(history, options.summary);
+  const summary = summaryEnd === -1 ? undefined : options.summary;
+  const recent = history.slice(summaryEnd + 1);
+
+  const fixedTokens = estimateTextTokens(systemInstruction) + estimateTextTokens(prompt);
+  const tokens = fixedTokens + estimateTextTokens(summary?.text) + await countTokens(provider, recent, model, signal);
+  if (tokens <= budget) return { history: recent, summary, tokens };
+
+  let keepFrom = recent.length;
+  let keptTokens = 0;
+  while (keepFrom > 0) {
+    const next = estimateMessageTokens(recent[keepFrom - 1]);
+    if (recent.length - keepFrom >= MIN_RECENT_MESSAGES && keptTokens + next > budget * RECENT_SHARE) break;
+    keptTokens += next;
+    keepFrom--;
+  }
+  // Start the kept turns on a user message, so no reply is sent without its question.
+  while (keepFrom > 0 && keepFrom < recent.length && recent[keepFrom].role !== 'user') keepFrom++;
+  if (keepFrom === 0) return { history: recent, summary, tokens }; // nothing old enough to fold
+
+  const folded = recent.slice(0, keepFrom);
+  const kept = recent.slice(keepFrom);
+  try {
+    const text = await provider.summarize(summary?.text, folded, signal);
+    const updated: ContextSummary = { text, throughMessageId: folded[folded.length - 1].id };
+    return { history: kept, summary: updated, tokens: fixedTokens + estimateTextTokens(text) + estimateHistoryTokens(kept) };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    // Sending the full history may still work (the budget is usually well below the model's
+    // limit), whereas silently dropping turns would lose context without telling anyone.
+    console.warn("Could not summarize older messages; sending them in full:", error);
+    return { history: recent, summary, tokens };
+  }
+};
@@ -0,0 +1,332 @@
+import { type Attachment, type ChatTool, type Conversation, type ImageEditStep, type ImageGenSettings, type Message, type ToolCall, type TranscriptSegment, type UsageRecord, ModelId } from '../types';
+import { inlineMedia } from './assets';
+import { getCodeFiles, getFileLanguage } from './canvas';
+import { describeAttachmentType, formatFileSize } from './attachments';
+
+// Conversation export (Markdown, HTML, JSON) and JSON import. JSON is the lossless format: it
+// keeps every Message field, including branches, grounding sources, generated code and media
+// (embedded as data: URLs), so an exported file can be imported back without losing anything.
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+const EXPORT_FORMAT_ID = 'ripoai.conversations';
+const EXPORT_VERSION = 1;
+
+export const EXPORT_FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string; label: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown', label: 'Markdown' },
+  html: { extension: 'html', mimeType: 'text/html', label: 'HTML' },
+  json: { extension: 'json', mimeType: 'application/json', label: 'JSON' },
+};
+
+const MEDIA_LABELS: [keyof Message, string][] = [
+  ['image', 'Image'],
+  ['video', 'Video'],
+  ['audioSrc', 'Audio recording'],
+  ['generatedImage', 'Generated image'],
+  ['generatedVideo', 'Generated video'],
+];
+
+const roleLabel = (message: Message) => message.role === 'user' ? 'You' : 'RipoAI';
+
+const attachmentLabel = (attachment: NonNullable<Message['attachments']>[number]) =>
+  `${attachment.name} (${describeAttachmentType(attachment)}, ${formatFileSize(attachment.size)})`;
+
+const formatDate = (date?: Date) => date ? date.toLocaleString() : '';
+
+const sourcesOf = (message: Message) =>
+  (message.groundingChunks || [])
+    .map(chunk => chunk.web || chunk.maps)
+    .filter((source): source is { uri: string; title?: string } => !!source?.uri);
+
+// --- Markdown ---
+
+const messageToMarkdown = (message: Message): string => {
+  const lines = [`### ${roleLabel(message)}`, ''];
+  MEDIA_LABELS.forEach(([field, label]) => {
+    if (message[field]) lines.push(`*[${label} attached]*`, '');
+  });
+  message.attachments?.forEach(attachment => lines.push(`*[Attached: ${attachmentLabel(attachment)}]*`, ''));
+  if (message.text) lines.push(message.text, '');
+  if (message.error) lines.push(`> **Error:** ${message.error}`, '');
+  if (message.truncated) lines.push('*Generation stopped.*', '');
+  getCodeFiles(message)?.forEach(file => lines.push(`\`${file.name}\`:`, '', '```' + getFileLanguage(file.name), file.content, '```', ''));
+  const sources = sourcesOf(message);
+  if (sources.length > 0) {
+    lines.push('**Sources:**', ...sources.map(source => `- [${source.title || source.uri}](${source.uri})`), '');
+  }
+  return lines.join('\n');
+};
+
+const conversationToMarkdown = (conversation: Conversation): string => [
+  `# ${conversation.title}`,
+  '',
+  ...(conversation.summary ? [`> ${conversation.summary}`, ''] : []),
+  `*${[formatDate(conversation.createdAt), conversation.model].filter(Boolean).join(' · ')}*`,
+  '',
+  ...(conversation.systemInstruction ? ['**System prompt:**', '', conversation.systemInstruction, ''] : []),
+  ...conversation.messages.map(messageToMarkdown),
+].join('\n');
+
+// --- HTML ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const safeHref = (url: string) => /^(https?:|mailto:)/i.test(url) ? escapeHtml(url) : '#';
+
+const mediaToHtml = (field: keyof Message, url: string) => {
+  const src = escapeHtml(url);
+  if (field === 'image' || field === 'generatedImage') return `<img src="${src}" alt="">`;
+  if (field === 'audioSrc') return `<audio src="${src}" controls></audio>`;
+  return `<video src="${src}" controls></video>`;
+};
+
+const messageToHtml = (message: Message): string => {
+  const parts: string[] = [];
+  MEDIA_LABELS.forEach(([field]) => {
+    const url = message[field];
+    // Only embedded media survives outside the app; anything else couldn't be loaded.
+    if (typeof url === 'string' && url.startsWith('data:')) parts.push(mediaToHtml(field, url));
+  });
+  message.attachments?.forEach(attachment => {
+    parts.push(attachment.mimeType.startsWith('image/') && attachment.src.startsWith('data:')
+      ? mediaToHtml('image', attachment.src)
+      : `<p class="note">Attached: ${escapeHtml(attachmentLabel(attachment))}</p>`);
+  });
+  if (message.text) parts.push(`<div class="text">${escapeHtml(message.text)}</div>`);
+  if (message.error) parts.push(`<p class="error">${escapeHtml(message.error)}</p>`);
+  if (message.truncated) parts.push('<p class="note">Generation stopped.</p>');
+  getCodeFiles(message)?.forEach(file => parts.push(`<p class="note">${escapeHtml(file.name)}</p><pre><code>${escapeHtml(file.content)}</code></pre>`));
+  const sources = sourcesOf(message);
+  if (sources.length > 0) {
+    const items = sources.map(source => `<li><a href="${safeHref(source.uri)}">${escapeHtml(source.title || source.uri)}</a></li>`);
+    parts.push(`<div class="sources">Sources:<ul>${items.join('')}</ul></div>`);
+  }
+  return `<div class="message ${message.role}"><div class="role">${roleLabel(message)}</div>${parts.join('\n')}</div>`;
+};
+
+const conversationToHtml = (conversation: Conversation): string => `
+<section>
+  <h1>${escapeHtml(conversation.title)}</h1>
+  ${conversation.summary ? `<p class="summary">${escapeHtml(conversation.summary)}</p>` : ''}
+  <p class="note">${escapeHtml([formatDate(conversation.createdAt), conversation.model].filter(Boolean).join(' · '))}</p>
+  ${conversation.messages.map(messageToHtml).join('\n')}
+</section>`;
+
+const HTML_STYLES = `
+  body { font-family: system-ui, sans-serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111827; background: #f9fafb; }
+  section + section { margin-top: 3rem; padding-top: 2rem; border-top: 1px solid #d1d5db; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  .summary { color: #4b5563; margin-top: 0; }
+  .note { color: #6b7280; font-size: 0.8rem; font-style: italic; }
+  .message { margin: 1rem 0; padding: 0.75rem 1rem; border-radius: 1rem; background: #e5e7eb; }
+  .message.user { background: #4f46e5; color: #fff; margin-left: 4rem; }
+  .message.user .note { color: #e0e7ff; }
+  .role { font-weight: 600; font-size: 0.8rem; margin-bottom: 0.25rem; opacity: 0.8; }
+  .text { white-space: pre-wrap; overflow-wrap: anywhere; }
+  .error { color: #dc2626; font-weight: 600; }
+  img, video { display: block; max-width: 100%; max-height: 24rem; border-radius: 0.5rem; margin: 0.5rem 0; }
+  pre { background: #0f172a; color: #e2e8f0; padding: 0.75rem; border-radius: 0.5rem; overflow-x: auto; font-size: 0.8rem; }
+  .sources { font-size: 0.8rem; margin-top: 0.5rem; }
+  a { color: inherit; }
+`;
+
+const conversationsToHtml = (conversations: Conversation[], title: string): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${conversations.map(conversationToHtml).join('\n')}
+</body>
+</html>
+`;
+
+// --- JSON ---
+
+interface ExportFile {
+  format: typeof EXPORT_FORMAT_ID;
+  version: number;
+  exportedAt: string;
+  conversations: Omit<Conversation, 'id'>[];
+}
+
+// Builds the file contents for `conversations` in the given format. Media is embedded for HTML
+// and JSON, which can take a moment for conversations with many images or videos.
+export const exportConversations = async (conversations: Conversation[], format: ExportFormat): Promise<string> => {
+  if (format === 'markdown') return conversations.map(conversationToMarkdown).join('\n\n---\n\n');
+
+  const withMedia = await Promise.all(conversations.map(async conversation => ({
+    ...conversation,
+    messages: await inlineMedia(conversation.messages),
+  })));
+  if (format === 'html') {
+    return conversationsToHtml(withMedia, withMedia.length === 1 ? withMedia[0].title : 'RipoAI conversations');
+  }
+  const file: ExportFile = {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversations: withMedia.map(({ id, deletedAt, ...conversation }) => conversation),
+  };
+  return JSON.stringify(file, null, 2);
+};
+
+export const exportFileName = (conversations: Conversation[], format: ExportFormat): string => {
+  const base = conversations.length === 1
+    ? conversations[0].title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'conversation'
+    : `ripoai-conversations-${new Date().toISOString().slice(0, 10)}`;
+  return `${base}.${EXPORT_FILE_TYPES[format].extension}`;
+};
+
+const MODEL_IDS = new Set<string>(Object.values(ModelId));
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const CHAT_TOOLS = new Set<string>(['chat', 'image-gen', 'image-edit', 'video-gen', 'video-analysis', 'audio-transcription', 'canvas']);
+const ASPECT_RATIOS = new Set<string>(['1:1', '16:9', '9:16', '4:3', '3:4']);
+const USAGE_COUNTS = ['promptTokens', 'outputTokens', 'thinkingTokens', 'images', 'videoSeconds', 'ttsCharacters'] as const;
+
+// Imported files are untrusted: every field is checked and anything unexpected is dropped. Media
+// is only accepted embedded, so nothing in a file makes the app fetch a URL of its choosing.
+const optionalString = (value: unknown) => typeof value === 'string' ? value : undefined;
+const optionalCount = (value: unknown) => typeof value === 'number' && isFinite(value) && value >= 0 ? value : undefined;
+const dataUrl = (value: unknown) => typeof value === 'string' && value.startsWith('data:') ? value : undefined;
+const isRecord = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isWebUrl = (value: unknown) => typeof value === 'string' && /^https?:\/\//i.test(value);
+
+// Keeps the items `parse` accepts; undefined when `value` isn't a list or nothing is left.
+const parseList = <T>(value: unknown, parse: (item: any) => T | undefined): T[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const items = value.map(parse).filter((item): item is T => item !== undefined);
+  return items.length > 0 ? items : undefined;
+};
+
+const parseAttachment = (raw: any): Attachment | undefined => {
+  const src = dataUrl(raw?.src);
+  if (!src || typeof raw.name !== 'string' || typeof raw.mimeType !== 'string') return undefined;
+  return { name: raw.name, mimeType: raw.mimeType, size: optionalCount(raw.size) ?? 0, src };
+};
+
+const parseUsage = (raw: any): UsageRecord | undefined => {
+  if (typeof raw?.model !== 'string') return undefined;
+  const record: UsageRecord = { model: raw.model };
+  for (const key of USAGE_COUNTS) {
+    const count = optionalCount(raw[key]);
+    if (count !== undefined) record[key] = count;
+  }
+  return record;
+};
+
+const parseToolCall = (raw: any): ToolCall | undefined => {
+  if (typeof raw?.id !== 'string' || typeof raw.name !== 'string') return undefined;
+  return { id: raw.id, name: raw.name, args: isRecord(raw.args) ? raw.args : {}, result: raw.result, error: optionalString(raw.error) };
+};
+
+const parseSegment = (raw: any): TranscriptSegment | undefined => {
+  const start = optionalCount(raw?.start);
+  if (start === undefined || typeof raw.text !== 'string') return undefined;
+  return { start, end: Math.max(start, optionalCount(raw.end) ?? start), speaker: optionalString(raw.speaker), text: raw.text };
+};
+
+const parseImageSettings = (raw: any): ImageGenSettings | undefined => {
+  if (!ASPECT_RATIOS.has(raw?.aspectRatio) || (raw.format !== 'image/jpeg' && raw.format !== 'image/png')) return undefined;
+  const count = Number.isInteger(raw.count) ? Math.min(4, Math.max(1, raw.count)) : 1;
+  return { aspectRatio: raw.aspectRatio, count, format: raw.format, negativePrompt: optionalString(raw.negativePrompt) };
+};
+
+// Steps refer to each other by index, so one unreadable step drops the whole history.
+const parseEditHistory = (value: unknown): ImageEditStep[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const steps = value.map((raw: any): ImageEditStep | undefined => {
+    const image = dataUrl(raw?.image);
+    if (!image) return undefined;
+    const from = Number.isInteger(raw.from) && raw.from >= 0 && raw.from < value.length ? raw.from : undefined;
+    return { image, prompt: optionalString(raw.prompt) ?? '', from, masked: raw.masked === true || undefined };
+  });
+  return steps.length > 0 && steps.every(step => step !== undefined) ? steps as ImageEditStep[] : undefined;
+};
+
+// Grounding sources become links, so only http(s) ones are kept.
+const parseGroundingChunk = (raw: any) => {
+  const source = isWebUrl(raw?.web?.uri) ? 'web' : isWebUrl(raw?.maps?.uri) ? 'maps' : null;
+  if (!source) return undefined;
+  return { [source]: { uri: raw[source].uri, title: optionalString(raw[source].title) } };
+};
+
+const parseMessages = (value: unknown): Message[] => {
+  if (!Array.isArray(value)) throw new Error("A conversation in the file has no message list.");
+  return value.map((raw, index): Message => {
+    if (!raw || typeof raw !== 'object' || (raw.role !== 'user' && raw.role !== 'model')) {
+      throw new Error(`Message ${index + 1} in the file is not a valid message.`);
+    }
+    const branches = Array.isArray(raw.branches) ? raw.branches.map((branch: any) => ({ messages: parseMessages(branch?.messages) })) : undefined;
+    return {
+      id: typeof raw.id === 'string' ? raw.id : `${Date.now()}-${index}`,
+      role: raw.role,
+      text: typeof raw.text === 'string' ? raw.text : '',
+      image: dataUrl(raw.image),
+      video: dataUrl(raw.video),
+      audioSrc: dataUrl(raw.audioSrc),
+      attachments: parseList(raw.attachments, parseAttachment),
+      generatedImage: dataUrl(raw.generatedImage),
+      generatedImages: parseList(raw.generatedImages, dataUrl),
+      imageSettings: parseImageSettings(raw.imageSettings),
+      editHistory: parseEditHistory(raw.editHistory),
+      generatedVideo: dataUrl(raw.generatedVideo),
+      generatedCode: optionalString(raw.generatedCode),
+      codeFiles: parseList(raw.codeFiles, (file: any) =>
+        typeof file?.name === 'string' && typeof file.content === 'string' ? { name: file.name, content: file.content } : undefined),
+      transcript: parseList(raw.transcript, parseSegment),
+      groundingChunks: parseList(raw.groundingChunks, parseGroundingChunk),
+      error: optionalString(raw.error),
+      truncated: raw.truncated === true || undefined,
+      tool: CHAT_TOOLS.has(raw.tool) ? raw.tool as ChatTool : undefined,
+      branches,
+      branchIndex: branches && Number.isInteger(raw.branchIndex) && raw.branchIndex >= 0 && raw.branchIndex <= branches.length ? raw.branchIndex : undefined,
+      usage: parseList(raw.usage, parseUsage),
+      toolCalls: parseList(raw.toolCalls, parseToolCall),
+    };
+  });
+};
+
+// Reads a JSON export back into conversation data ready for createConversation.
+export const parseConversationsJson = (json: string): Omit<Conversation, 'id'>[] => {
+  let file: any;
+  try {
+    file = JSON.parse(json);
+  } catch {
+    throw new Error("This file isn't valid JSON.");
+  }
+  if (file?.format !== EXPORT_FORMAT_ID || !Array.isArray(file.conversations)) {
+    throw new Error("This file isn't a RipoAI conversation export.");
+  }
+  if (file.version > EXPORT_VERSION) {
+    throw new Error("This export was made by a newer version of RipoAI.");
+  }
+  return file.conversations.map((raw: any): Omit<Conversation, 'id'> => ({
+    title: typeof raw.title === 'string' && raw.title.trim() ? raw.title : 'Imported conversation',
+    summary: typeof raw.summary === 'string' ? raw.summary : undefined,
+    messages: parseMessages(raw.messages),
+    model: MODEL_IDS.has(raw.model) ? raw.model : ModelId.GEMINI_FLASH,
+    pinned: raw.pinned === true || undefined,
+    archived: raw.archived === true || undefined,
+    createdAt: parseDate(raw.createdAt),
+    systemInstruction: typeof raw.systemInstruction === 'string' ? raw.systemInstruction : undefined,
+    persona: raw.persona && typeof raw.persona.name === 'string' ? raw.persona : undefined,
+    defaultTool: CHAT_TOOLS.has(raw.defaultTool) ? raw.defaultTool : undefined,
+    contextSummary: typeof raw.contextSummary?.text === 'string' && typeof raw.contextSummary.throughMessageId === 'string'
+      ? { text: raw.contextSummary.text, throughMessageId: raw.contextSummary.throughMessageId }
+      : undefined,
+    previewCapabilities: raw.previewCapabilities && typeof raw.previewCapabilities === 'object'
+      ? { forms: raw.previewCapabilities.forms === true, modals: raw.previewCapabilities.modals === true, network: raw.previewCapabilities.network === true }
+      : undefined,
+  }));
+};
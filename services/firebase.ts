@@ -1,7 +1,8 @@
 // Import the functions you need from the SDKs you need
 import { initializeApp } from "firebase/app";
 import { getAuth } from "firebase/auth";
-import { getFirestore } from "firebase/firestore";
+import { initializeFirestore } from "firebase/firestore";
+import { getStorage, connectStorageEmulator } from "firebase/storage";
 
 // Your web app's Firebase configuration from the prompt
 const firebaseConfig = {
@@ -17,4 +18,12 @@ const firebaseConfig = {
 // Initialize Firebase
 const app = initializeApp(firebaseConfig);
 export const auth = getAuth(app);
-export const db = getFirestore(app);
+// Optional Conversation/Message fields are often present but undefined; let Firestore drop them.
+export const db = initializeFirestore(app, { ignoreUndefinedProperties: true });
+export const storage = getStorage(app);
+
+// Point media uploads at the Storage emulator (e.g. "localhost:9199") during local development.
+if (process.env.FIREBASE_STORAGE_EMULATOR_HOST) {
+  const [host, port] = process.env.FIREBASE_STORAGE_EMULATOR_HOST.split(':');
+  connectStorageEmulator(storage, host, Number(port) || 9199);
+}
@@ -1,6 +1,6 @@
 import { db } from './firebase';
-import { collection, doc, getDocs, setDoc, addDoc, query, orderBy, Timestamp, serverTimestamp } from 'firebase/firestore';
-import { Conversation, Message } from '../types';
+import { collection, doc, getDocs, setDoc, addDoc, updateDoc, deleteDoc, deleteField, query, orderBy, Timestamp, serverTimestamp } from 'firebase/firestore';
+import { Conversation, Message, Persona, VideoJob } from '../types';
 
 const PERMISSION_ERROR_MESSAGE = `FirebaseError: Missing or insufficient permissions.
 
@@ -21,6 +21,17 @@ service cloud.firestore {
 }
 `;
 
+export const isPermissionError = (error: unknown): boolean =>
+  error instanceof Error && error.message === PERMISSION_ERROR_MESSAGE;
+
+// Firestore error codes that trying the same write again won't fix: missing rights, a document
+// that no longer exists, or data Firestore refuses (e.g. a document over 1 MB).
+const PERMANENT_ERROR_CODES = new Set(['permission-denied', 'not-found', 'invalid-argument', 'failed-precondition', 'out-of-range', 'already-exists']);
+
+// True for conversation writes that failed for good; anything else (offline, quota, timeouts) is worth retrying.
+export const isPermanentWriteError = (error: unknown): boolean =>
+  error instanceof Error && PERMANENT_ERROR_CODES.has((error.cause as { code?: string } | undefined)?.code ?? '');
+
 // Firestore data converter
 const conversationConverter = {
   toFirestore: (conversation: Conversation) => {
@@ -37,6 +48,7 @@ const conversationConverter = {
       id: snapshot.id,
       createdAt: data.createdAt?.toDate(),
       updatedAt: data.updatedAt?.toDate(),
+      deletedAt: data.deletedAt?.toDate(),
     } as Conversation;
   }
 };
@@ -78,8 +90,129 @@ export const updateConversation = async (userId: string, conversation: Conversat
   } catch (error: any) {
     console.error("Error updating conversation: ", error);
      if (error.code === 'permission-denied') {
+        throw new Error(PERMISSION_ERROR_MESSAGE, { cause: error });
+    }
+    throw new Error('Failed to save conversation changes.', { cause: error });
+  }
+};
+
+// Fields that can change without touching the conversation's messages or `updatedAt` order.
+// Passing `deletedAt: null` restores a conversation from the trash.
+export type ConversationFieldsUpdate = Partial<Pick<Conversation, 'title' | 'pinned' | 'archived' | 'systemInstruction' | 'previewCapabilities'>> & { deletedAt?: Date | null };
+
+export const updateConversationFields = async (userId: string, conversationId: string, fields: ConversationFieldsUpdate): Promise<void> => {
+  try {
+    const conversationRef = doc(db, 'users', userId, 'conversations', conversationId);
+    const { deletedAt, ...rest } = fields;
+    const data: Record<string, unknown> = { ...rest };
+    if (deletedAt !== undefined) {
+      data.deletedAt = deletedAt === null ? deleteField() : Timestamp.fromDate(deletedAt);
+    }
+    await updateDoc(conversationRef, data);
+  } catch (error: any) {
+    console.error("Error updating conversation fields: ", error);
+    if (error.code === 'permission-denied') {
+        throw new Error(PERMISSION_ERROR_MESSAGE, { cause: error });
+    }
+    throw new Error('Failed to save conversation changes.', { cause: error });
+  }
+};
+
+export const deleteConversation = async (userId: string, conversationId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, 'users', userId, 'conversations', conversationId));
+  } catch (error: any) {
+    console.error("Error deleting conversation: ", error);
+    if (error.code === 'permission-denied') {
+        throw new Error(PERMISSION_ERROR_MESSAGE, { cause: error });
+    }
+    throw new Error('Failed to delete the conversation.', { cause: error });
+  }
+};
+
+const personaConverter = {
+  toFirestore: (persona: Persona) => {
+    const { id, ...data } = persona;
+    return { ...data, createdAt: persona.createdAt || serverTimestamp() };
+  },
+  fromFirestore: (snapshot: any, options: any): Persona => {
+    const data = snapshot.data(options);
+    return { ...data, id: snapshot.id, createdAt: data.createdAt?.toDate() } as Persona;
+  }
+};
+
+export const fetchPersonas = async (userId: string): Promise<Persona[]> => {
+  try {
+    const personasRef = collection(db, 'users', userId, 'personas');
+    const querySnapshot = await getDocs(query(personasRef, orderBy('createdAt', 'asc')).withConverter(personaConverter));
+    return querySnapshot.docs.map(doc => doc.data());
+  } catch (error: any) {
+    console.error("Error fetching personas: ", error);
+    if (error.code === 'permission-denied') {
+        throw new Error(PERMISSION_ERROR_MESSAGE);
+    }
+    throw new Error('Failed to load your personas.');
+  }
+};
+
+export const savePersona = async (userId: string, persona: Persona): Promise<void> => {
+  try {
+    await setDoc(doc(db, 'users', userId, 'personas', persona.id).withConverter(personaConverter), persona);
+  } catch (error: any) {
+    console.error("Error saving persona: ", error);
+    if (error.code === 'permission-denied') {
+        throw new Error(PERMISSION_ERROR_MESSAGE);
+    }
+    throw new Error('Failed to save the persona.');
+  }
+};
+
+export const deletePersona = async (userId: string, personaId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, 'users', userId, 'personas', personaId));
+  } catch (error: any) {
+    console.error("Error deleting persona: ", error);
+    if (error.code === 'permission-denied') {
+        throw new Error(PERMISSION_ERROR_MESSAGE);
+    }
+    throw new Error('Failed to delete the persona.');
+  }
+};
+
+export const fetchVideoJobs = async (userId: string): Promise<VideoJob[]> => {
+  try {
+    const querySnapshot = await getDocs(collection(db, 'users', userId, 'videoJobs'));
+    return querySnapshot.docs.map(doc => ({ ...doc.data(), id: doc.id } as VideoJob));
+  } catch (error: any) {
+    console.error("Error fetching video jobs: ", error);
+    if (error.code === 'permission-denied') {
+        throw new Error(PERMISSION_ERROR_MESSAGE);
+    }
+    throw new Error('Failed to load your video jobs.');
+  }
+};
+
+export const saveVideoJob = async (userId: string, job: VideoJob): Promise<void> => {
+  try {
+    const { id, ...data } = job;
+    await setDoc(doc(db, 'users', userId, 'videoJobs', id), data);
+  } catch (error: any) {
+    console.error("Error saving video job: ", error);
+    if (error.code === 'permission-denied') {
+        throw new Error(PERMISSION_ERROR_MESSAGE);
+    }
+    throw new Error('Failed to save the video job.');
+  }
+};
+
+export const deleteVideoJob = async (userId: string, jobId: string): Promise<void> => {
+  try {
+    await deleteDoc(doc(db, 'users', userId, 'videoJobs', jobId));
+  } catch (error: any) {
+    console.error("Error deleting video job: ", error);
+    if (error.code === 'permission-denied') {
         throw new Error(PERMISSION_ERROR_MESSAGE);
     }
-    throw new Error('Failed to save conversation changes.');
+    throw new Error('Failed to delete the video job.');
   }
 };
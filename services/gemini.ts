@@ -1,7 +1,14 @@
 
-import { GoogleGenAI, GenerateContentStreamResult, ModelId as GenAIModelId, Modality, Type, FunctionDeclaration, LiveSession, LiveCallbacks, GenerateVideosOperation, AspectRatio as GenAIAspectRatio, GroundingChunk } from '@google/genai';
-import { type Message, ModelId, AspectRatio } from '../types';
-import { fileToBase64, decode, decodeAudioData } from '../utils';
+import { GoogleGenAI, FileState, GenerateContentStreamResult, ModelId as GenAIModelId, Modality, Type, Session, LiveCallbacks, GenerateVideosOperation, AspectRatio as GenAIAspectRatio, GroundingChunk } from '@google/genai';
+import { type Message, type UsageRecord, type ImageGenSettings, type CodeFile, type TranscriptSegment, ModelId } from '../types';
+import type { ChatOptions, ModelProvider } from './providers';
+import { addUsage } from './usage';
+import { buildSummaryRequest, SUMMARY_INSTRUCTION } from './context';
+import { formatCodeFiles, getCodeFiles } from './canvas';
+import { parseTimestamp } from './transcripts';
+import { attachmentToPart, fileToPart, formatFileSize } from './attachments';
+import { resolveMediaUrl } from './assets';
+import { fileToBase64, decode, decodeAudioData, urlToInlineData, delay } from '../utils';
 
 let ai: GoogleGenAI | null = null;
 const getAI = () => {
@@ -23,24 +30,87 @@ export const getNewAI = () => {
     return new GoogleGenAI({ apiKey: process.env.API_KEY });
 }
 
-interface ChatOptions {
-  prompt: string;
-  image?: File;
-  video?: File;
-  model: ModelId;
-  useSearch?: boolean;
-  useMaps?: boolean;
-  useThinkingMode?: boolean;
-}
+// Inline media re-sent from earlier turns is capped so requests stay under the API's ~20 MB limit.
+const HISTORY_MEDIA_BUDGET = 12 * 1024 * 1024; // base64 characters
+const HISTORY_MEDIA_ITEM_LIMIT = 6 * 1024 * 1024;
+
+type HistoryMediaKind = 'image' | 'video' | 'audio' | 'generated image';
+
+// How many times one reply may go back to the model with tool results before it must answer.
+const MAX_TOOL_ROUNDS = 5;
+
+/**
+ * Serializes chat history into model contents, re-attaching prior images, videos,
+ * audio recordings, attached files, generated images and generated code. Media is kept newest-first
+ * until the budget runs out; anything older is replaced with a short text note.
+ */
+export const buildHistoryContents = async (history: Message[], budget = HISTORY_MEDIA_BUDGET) => {
+  let remainingBudget = budget;
+  const contents: { role: string; parts: any[] }[] = [];
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const msg = history[i];
+    if (msg.error && !msg.text) continue;
+
+    const media: [HistoryMediaKind, string | undefined][] = [
+      ['image', msg.image],
+      ['video', msg.video],
+      ['audio', msg.audioSrc],
+      ['generated image', msg.generatedImage],
+    ];
+    const mediaParts: any[] = [];
+    for (const [kind, url] of media) {
+      if (!url) continue;
+      let inlineData: { mimeType: string; data: string } | null = null;
+      try {
+        inlineData = await urlToInlineData(await resolveMediaUrl(url));
+      } catch (error) {
+        console.warn(`Could not load ${kind} from history:`, error);
+      }
+      if (inlineData && inlineData.data.length <= HISTORY_MEDIA_ITEM_LIMIT && inlineData.data.length <= remainingBudget) {
+        remainingBudget -= inlineData.data.length;
+        mediaParts.push({ inlineData });
+      } else {
+        mediaParts.push({ text: `[An earlier ${kind} was attached here but omitted to save space.]` });
+      }
+    }
+    for (const attachment of msg.attachments || []) {
+      let loaded: Awaited<ReturnType<typeof attachmentToPart>> = null;
+      try {
+        loaded = await attachmentToPart(attachment, await resolveMediaUrl(attachment.src));
+      } catch (error) {
+        console.warn(`Could not load ${attachment.name} from history:`, error);
+      }
+      if (loaded && loaded.size <= HISTORY_MEDIA_ITEM_LIMIT && loaded.size <= remainingBudget) {
+        remainingBudget -= loaded.size;
+        mediaParts.push(loaded.part);
+      } else {
+        mediaParts.push({ text: `[An earlier file, ${attachment.name}, was attached here but omitted to save space.]` });
+      }
+    }
+
+    const parts: any[] = [...mediaParts];
+    if (msg.text) parts.push({ text: msg.text });
+    const codeFiles = getCodeFiles(msg);
+    if (codeFiles) parts.push({ text: `Generated code:\n${formatCodeFiles(codeFiles)}` });
+    if (msg.toolCalls?.length) {
+      // The raw calls can't be replayed without their original ids, but the results are facts
+      // the reply relied on, so keep them visible to the model.
+      const results = msg.toolCalls.map(call => `${call.name}(${JSON.stringify(call.args)}) -> ${JSON.stringify(call.error ? { error: call.error } : call.result)}`);
+      parts.unshift({ text: `[Tool calls made for this reply]\n${results.join('\n')}` });
+    }
+    if (parts.length === 0) continue;
+
+    contents.unshift({ role: msg.role, parts });
+  }
+  return contents;
+};
+
+// Gemini can't combine Search or Maps grounding with function calling, so local tools are only
+// offered when both are off.
+const buildChatRequest = async (history: Message[], options: ChatOptions) => {
+    const { prompt, image, video, attachments, model, useSearch, useMaps, useThinkingMode, systemInstruction, tools: toolRunner, signal } = options;
 
-export const generateChatResponseStream = async (
-  history: Message[],
-  options: ChatOptions
-): Promise<GenerateContentStreamResult> => {
-  try {
-    const { prompt, image, video, model, useSearch, useMaps, useThinkingMode } = options;
-    const ai = getAI();
-    
     const userParts: any[] = [{ text: prompt }];
     if (image) {
       userParts.push({ inlineData: { mimeType: image.type, data: await fileToBase64(image) } });
@@ -48,18 +118,18 @@ export const generateChatResponseStream = async (
     if (video) {
       userParts.push({ inlineData: { mimeType: video.type, data: await fileToBase64(video) } });
     }
+    for (const file of attachments || []) {
+      userParts.push(await fileToPart(file));
+    }
 
-    const contents = [...history.map(msg => ({
-        role: msg.role,
-        parts: [{text: msg.text}] // simplified history for context
-      })), 
-      { role: 'user', parts: userParts }
-    ];
+    const contents = [...await buildHistoryContents(history), { role: 'user', parts: userParts }];
 
-    const config: any = {};
+    const config: any = { abortSignal: signal };
+    if (systemInstruction?.trim()) config.systemInstruction = systemInstruction;
     const tools: any[] = [];
     if (useSearch) tools.push({ googleSearch: {} });
     if (useMaps) tools.push({ googleMaps: {} });
+    if (tools.length === 0 && toolRunner) tools.push({ functionDeclarations: toolRunner.declarations });
     if (tools.length > 0) config.tools = tools;
 
     let effectiveModel: GenAIModelId = model as GenAIModelId;
@@ -73,57 +143,74 @@ export const generateChatResponseStream = async (
         config.thinkingConfig = { thinkingBudget: 32768 };
     }
 
+    return { model: effectiveModel, contents, config };
+};
+
+const startChatStream = async (request: Awaited<ReturnType<typeof buildChatRequest>>) => {
+  try {
+    const ai = getAI();
     // Use a stateless generateContentStream for simplicity
-    return ai.models.generateContentStream({
-        model: effectiveModel,
-        contents,
-        config,
-    });
+    return await ai.models.generateContentStream(request);
   } catch(error: any) {
     console.error("Chat Error:", error);
     throw new Error(error.message || "Failed to get chat response. Check your API key and network.");
   }
 };
 
-export const generateImage = async (prompt: string, aspectRatio: AspectRatio): Promise<string> => {
+export const generateChatResponseStream = async (
+  history: Message[],
+  options: ChatOptions
+): Promise<GenerateContentStreamResult> => startChatStream(await buildChatRequest(history, options));
+
+// Imagen through the Gemini API rejects the negativePrompt and seed parameters, so the negative
+// prompt is folded into the prompt text instead.
+export const generateImage = async (prompt: string, settings: ImageGenSettings, signal?: AbortSignal): Promise<string[]> => {
     try {
         const ai = getAI();
         const response = await ai.models.generateImages({
             model: ModelId.IMAGEN as GenAIModelId,
-            prompt,
+            prompt: settings.negativePrompt?.trim() ? `${prompt}\n\nAvoid: ${settings.negativePrompt.trim()}` : prompt,
             config: {
-                numberOfImages: 1,
-                outputMimeType: 'image/jpeg',
-                aspectRatio: aspectRatio as GenAIAspectRatio,
+                numberOfImages: settings.count,
+                outputMimeType: settings.format,
+                aspectRatio: settings.aspectRatio as GenAIAspectRatio,
+                abortSignal: signal,
             },
         });
 
-        if (!response.generatedImages || response.generatedImages.length === 0) {
+        // Images blocked by safety filters come back without bytes.
+        const images = (response.generatedImages || []).filter(generated => generated.image?.imageBytes);
+        if (images.length === 0) {
             throw new Error("Image generation failed to produce an image.");
         }
         
-        return `data:image/jpeg;base64,${response.generatedImages[0].image.imageBytes}`;
+        return images.map(generated => `data:${settings.format};base64,${generated.image.imageBytes}`);
     } catch(error: any) {
         console.error("Image Generation Error:", error);
         throw new Error(error.message || "Failed to generate image. Please try again.");
     }
 };
 
-export const editImage = async (prompt: string, imageFile: File): Promise<string> => {
+const MASK_INSTRUCTION = "The second image is a mask. Change only the area that is white in the mask and keep everything in the black area exactly as it is.";
+
+// Edits an image with Gemini. A mask (white where changes are allowed, black elsewhere) is sent as
+// a second image; the model has no mask input of its own, so the prompt explains it.
+export const editImage = async (prompt: string, imageFile: File, signal?: AbortSignal, mask?: Blob): Promise<string> => {
     try {
         const ai = getAI();
         const base64Image = await fileToBase64(imageFile);
+        const parts: any[] = [{ inlineData: { data: base64Image, mimeType: imageFile.type } }];
+        if (mask) {
+            parts.push({ inlineData: { data: await fileToBase64(new File([mask], 'mask.png', { type: 'image/png' })), mimeType: 'image/png' } });
+        }
+        parts.push({ text: mask ? `${prompt}\n\n${MASK_INSTRUCTION}` : prompt });
         
         const response = await ai.models.generateContent({
             model: ModelId.GEMINI_FLASH_IMAGE as GenAIModelId,
-            contents: {
-                parts: [
-                    { inlineData: { data: base64Image, mimeType: imageFile.type } },
-                    { text: prompt },
-                ],
-            },
+            contents: { parts },
             config: {
                 responseModalities: [Modality.IMAGE],
+                abortSignal: signal,
             },
         });
 
@@ -139,8 +226,36 @@ export const editImage = async (prompt: string, imageFile: File): Promise<string
     }
 };
 
+// Re-renders an image at 2K with Gemini 3 Pro Image. Imagen's own upscaler is only offered on
+// Vertex AI, not with an API key.
+export const upscaleImage = async (imageFile: File, signal?: AbortSignal): Promise<string> => {
+    try {
+        const ai = getAI();
+        const response = await ai.models.generateContent({
+            model: ModelId.GEMINI_PRO_IMAGE as GenAIModelId,
+            contents: {
+                parts: [
+                    { inlineData: { data: await fileToBase64(imageFile), mimeType: imageFile.type } },
+                    { text: "Upscale this image to a higher resolution. Keep the composition, colors, text and every subject exactly as they are; only add sharpness and fine detail." },
+                ],
+            },
+            config: {
+                responseModalities: [Modality.IMAGE],
+                imageConfig: { imageSize: '2K' },
+                abortSignal: signal,
+            },
+        });
+
+        const part = response.candidates?.[0]?.content?.parts?.find(candidate => candidate.inlineData);
+        if (!part?.inlineData) throw new Error("Upscaling failed to produce an image.");
+        return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    } catch(error: any) {
+        console.error("Image Upscale Error:", error);
+        throw new Error(error.message || "Failed to upscale the image. Please try again.");
+    }
+};
 
-export const generateVideo = async (prompt: string, imageFile?: File, aspectRatio: "16:9" | "9:16" = "16:9"): Promise<GenerateVideosOperation> => {
+export const generateVideo = async (prompt: string, imageFile?: File, aspectRatio: "16:9" | "9:16" = "16:9", signal?: AbortSignal): Promise<GenerateVideosOperation> => {
     try {
         const ai = getNewAI(); // Use new instance for Veo with potentially updated key
         const imagePayload = imageFile ? {
@@ -156,6 +271,7 @@ export const generateVideo = async (prompt: string, imageFile?: File, aspectRati
                 numberOfVideos: 1,
                 resolution: '720p',
                 aspectRatio: aspectRatio,
+                abortSignal: signal,
             }
         });
     } catch(error: any) {
@@ -164,13 +280,40 @@ export const generateVideo = async (prompt: string, imageFile?: File, aspectRati
     }
 }
 
-export const checkVideoStatus = async (operation: GenerateVideosOperation): Promise<GenerateVideosOperation> => {
+export const checkVideoStatus = async (operation: GenerateVideosOperation, signal?: AbortSignal): Promise<GenerateVideosOperation> => {
     const ai = getNewAI();
-    return ai.operations.getVideosOperation({ operation });
+    return ai.operations.getVideosOperation({ operation, config: { abortSignal: signal } });
 }
 
-export const fetchVideo = async (uri: string): Promise<string> => {
-    const response = await fetch(`${uri}&key=${process.env.API_KEY}`);
+const VIDEO_POLL_INTERVAL_MS = 10000;
+const MAX_VIDEO_POLL_FAILURES = 5;
+
+// Polls a Veo operation until it's done and returns the video URI. It goes by the operation's
+// name, so a job can be picked up again after a reload.
+export const waitForVideo = async (operationName: string, signal?: AbortSignal): Promise<string> => {
+    let operation: GenerateVideosOperation = Object.assign(new GenerateVideosOperation(), { name: operationName });
+    let failures = 0;
+    while (!operation.done) {
+        await delay(VIDEO_POLL_INTERVAL_MS, signal);
+        try {
+            operation = await checkVideoStatus(operation, signal);
+            failures = 0;
+        } catch (error) {
+            // A dropped connection shouldn't lose a job that is still running on the server.
+            if (signal?.aborted || ++failures >= MAX_VIDEO_POLL_FAILURES) throw error;
+            console.warn("Video status check failed, retrying:", error);
+        }
+    }
+    if (operation.error) {
+        throw new Error(String(operation.error.message || "Video generation failed."));
+    }
+    const uri = operation.response?.generatedVideos?.[0]?.video?.uri;
+    if (!uri) throw new Error("Video generation completed, but no video URI was returned.");
+    return uri;
+};
+
+export const fetchVideo = async (uri: string, signal?: AbortSignal): Promise<string> => {
+    const response = await fetch(`${uri}&key=${process.env.API_KEY}`, { signal });
     if (!response.ok) {
         throw new Error("Failed to fetch the generated video file.");
     }
@@ -179,20 +322,39 @@ export const fetchVideo = async (uri: string): Promise<string> => {
 }
 
 
-export const generateCode = async (prompt: string, useThinkingMode?: boolean): Promise<string> => {
+// Generates the files of a Canvas project. With `currentFiles` the request is a change to that
+// version, and the reply still holds every file so each version stands on its own.
+export const generateCode = async (prompt: string, currentFiles?: CodeFile[], useThinkingMode?: boolean, signal?: AbortSignal): Promise<CodeFile[]> => {
     try {
         const ai = getAI();
         const config: any = {
-            systemInstruction: `You are an expert web developer. Your task is to generate clean, self-contained HTML, CSS, and JavaScript code based on the user's request. 
-                - The output MUST be a single HTML file.
-                - All CSS MUST be in a <style> tag in the <head>.
-                - All JavaScript MUST be in a <script> tag at the end of the <body>.
+            systemInstruction: `You are an expert web developer. Your task is to build a small web project with clean HTML, CSS, and JavaScript based on the user's request.
+                - The project MUST have an index.html. Put larger CSS in style.css and larger JavaScript in script.js, linked from index.html with <link rel="stylesheet" href="style.css"> and <script src="script.js"></script>.
+                - Other files are allowed, but only HTML, CSS and JavaScript files, referenced by their file names.
                 - Do not use any external libraries or frameworks unless explicitly asked.
-                - Do not include any explanations, comments, or markdown formatting like \`\`\`html.
-                - Only output the raw HTML code.
-                - If the user provides existing code and asks for a modification, you MUST modify the provided code.
+                - Return every file of the project with its complete content, including files you did not change.
+                - Do not include any explanations or markdown formatting like \`\`\`html in the file contents.
+                - If the user provides existing project files and asks for a modification, you MUST modify the provided files.
                 - Analyze the request carefully and fix any potential bugs or errors in the generated code proactively.`,
-            responseMimeType: 'text/plain',
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    files: {
+                        type: Type.ARRAY,
+                        items: {
+                            type: Type.OBJECT,
+                            properties: {
+                                name: { type: Type.STRING, description: 'File name such as index.html, style.css or script.js.' },
+                                content: { type: Type.STRING },
+                            },
+                            required: ['name', 'content'],
+                        },
+                    },
+                },
+                required: ['files'],
+            },
+            abortSignal: signal,
         };
 
         let effectiveModel = ModelId.GEMINI_PRO as GenAIModelId; // Default to Pro for code
@@ -200,39 +362,190 @@ export const generateCode = async (prompt: string, useThinkingMode?: boolean): P
             config.thinkingConfig = { thinkingBudget: 32768 };
         }
 
+        const contents = currentFiles
+            ? `Current project files:\n\n${formatCodeFiles(currentFiles)}\n\nChange request: ${prompt}`
+            : prompt;
         const response = await ai.models.generateContent({
             model: effectiveModel,
-            contents: prompt,
+            contents,
             config
         });
-        return response.text;
+        const files: CodeFile[] = (JSON.parse(response.text).files || [])
+            .filter((file: any) => typeof file?.name === 'string' && typeof file?.content === 'string' && file.name.trim())
+            .map((file: any) => ({ name: file.name.trim(), content: file.content }));
+        if (files.length === 0) throw new Error("Code generation returned no files.");
+        return files;
     } catch(error: any) {
         console.error("Code Generation Error:", error);
         throw new Error(error.message || "Failed to generate code.");
     }
 }
 
-export const transcribeAudio = async (audioFile: File): Promise<string> => {
+const TITLE_CONTEXT_CHARS = 4000;
+
+export const generateConversationTitle = async (messages: Message[]): Promise<{ title: string; summary: string }> => {
     try {
         const ai = getAI();
-        const audioData = await fileToBase64(audioFile);
+        const firstUserIndex = messages.findIndex(m => m.role === 'user');
+        const excerpt = messages
+            .slice(Math.max(firstUserIndex, 0), firstUserIndex + 4)
+            .map(m => {
+                const attachments = [m.image && '[image]', m.video && '[video]', m.audioSrc && '[audio]', m.generatedImage && '[generated image]', m.generatedVideo && '[generated video]', getCodeFiles(m) && '[generated code]'].filter(Boolean).join(' ');
+                return `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.text} ${attachments}`.trim();
+            })
+            .join('\n')
+            .slice(0, TITLE_CONTEXT_CHARS);
+
+        const response = await ai.models.generateContent({
+            model: ModelId.GEMINI_FLASH_LITE as GenAIModelId,
+            contents: `Write a title and a summary for this conversation.\n\n${excerpt}`,
+            config: {
+                systemInstruction: "You name chat conversations. The title is at most 6 words, in the conversation's language, without quotes or trailing punctuation. The summary is a single sentence under 20 words.",
+                responseMimeType: 'application/json',
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        title: { type: Type.STRING },
+                        summary: { type: Type.STRING },
+                    },
+                    required: ['title', 'summary'],
+                },
+            },
+        });
+        const result = JSON.parse(response.text);
+        const title = String(result.title || '').trim().replace(/^["']|["'.]$/g, '');
+        if (!title) throw new Error("Title generation returned an empty title.");
+        return { title, summary: String(result.summary || '').trim() };
+    } catch (error: any) {
+        console.error("Title Generation Error:", error);
+        throw new Error(error.message || "Failed to generate a conversation title.");
+    }
+};
+
+// Folds `messages` into the running summary of a conversation's earlier turns.
+export const summarizeHistory = async (previousSummary: string | undefined, messages: Message[], signal?: AbortSignal): Promise<string> => {
+    try {
+        const ai = getAI();
+        const response = await ai.models.generateContent({
+            model: ModelId.GEMINI_FLASH_LITE as GenAIModelId,
+            contents: buildSummaryRequest(previousSummary, messages),
+            config: {
+                abortSignal: signal,
+                systemInstruction: SUMMARY_INSTRUCTION,
+            },
+        });
+        const summary = response.text?.trim();
+        if (!summary) throw new Error("Summarization returned no text.");
+        return summary;
+    } catch (error: any) {
+        if (signal?.aborted) throw error;
+        console.error("History Summarization Error:", error);
+        throw new Error(error.message || "Failed to summarize the conversation history.");
+    }
+};
+
+const countTokens = async (history: Message[], model: ModelId, signal?: AbortSignal): Promise<number> => {
+    const contents = await buildHistoryContents(history);
+    if (contents.length === 0) return 0;
+    const ai = getAI();
+    const response = await ai.models.countTokens({ model: model as GenAIModelId, contents, config: { abortSignal: signal } });
+    return response.totalTokens ?? 0;
+};
+
+// Transcribes an audio or video file into timed segments, one speaker each. Gemini places
+// MM:SS timestamps more reliably than fractional seconds, so those are what it's asked for.
+// Requests carry at most ~20 MB of inline data, so larger recordings go through the Files API,
+// which takes files up to 2 GB.
+const MAX_INLINE_MEDIA_SIZE = 15 * 1024 * 1024; // bytes; base64 adds a third on the way
+const MAX_UPLOAD_SIZE = 2 * 1024 * 1024 * 1024;
+const FILE_POLL_INTERVAL = 2000;
+
+// Uploads `file` and waits until Gemini has processed it. Returns the uploaded file's name, for
+// deleting it afterwards, and the request part that refers to it.
+const uploadMediaFile = async (file: File, signal?: AbortSignal) => {
+    const ai = getAI();
+    let uploaded = await ai.files.upload({ file, config: { mimeType: file.type, abortSignal: signal } });
+    while (uploaded.state === FileState.PROCESSING) {
+        await delay(FILE_POLL_INTERVAL, signal);
+        uploaded = await ai.files.get({ name: uploaded.name!, config: { abortSignal: signal } });
+    }
+    if (uploaded.state === FileState.FAILED || !uploaded.uri) throw new Error("Gemini could not process the uploaded recording.");
+    return { name: uploaded.name!, part: { fileData: { fileUri: uploaded.uri, mimeType: uploaded.mimeType || file.type } } };
+};
+
+export const transcribeAudio = async (mediaFile: File, signal?: AbortSignal): Promise<TranscriptSegment[]> => {
+    if (mediaFile.size > MAX_UPLOAD_SIZE) {
+        throw new Error(`The recording is ${formatFileSize(mediaFile.size)}; Gemini can transcribe files up to ${formatFileSize(MAX_UPLOAD_SIZE)}.`);
+    }
+    let uploadedName: string | undefined;
+    try {
+        const ai = getAI();
+        let mediaPart: any;
+        if (mediaFile.size > MAX_INLINE_MEDIA_SIZE) {
+            const uploaded = await uploadMediaFile(mediaFile, signal);
+            uploadedName = uploaded.name;
+            mediaPart = uploaded.part;
+        } else {
+            mediaPart = { inlineData: { mimeType: mediaFile.type, data: await fileToBase64(mediaFile) } };
+        }
         const response = await ai.models.generateContent({
             model: ModelId.GEMINI_FLASH as GenAIModelId,
             contents: {
                 parts: [
-                    { inlineData: { mimeType: audioFile.type, data: audioData } },
-                    { text: "Transcribe the audio." }
+                    mediaPart,
+                    { text: "Transcribe the speech in this recording verbatim, in its original language. Split it into segments of one speaker each, no longer than about 20 seconds. Label speakers \"Speaker 1\", \"Speaker 2\" and so on, or by name when the recording makes their names clear." }
                 ]
-            }
+            },
+            config: {
+                abortSignal: signal,
+                responseMimeType: 'application/json',
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        segments: {
+                            type: Type.ARRAY,
+                            items: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    start: { type: Type.STRING, description: 'Start time as MM:SS, or HH:MM:SS past an hour.' },
+                                    end: { type: Type.STRING, description: 'End time as MM:SS, or HH:MM:SS past an hour.' },
+                                    speaker: { type: Type.STRING },
+                                    text: { type: Type.STRING },
+                                },
+                                required: ['start', 'end', 'speaker', 'text'],
+                            },
+                        },
+                    },
+                    required: ['segments'],
+                },
+            },
         });
-        return response.text;
+        const segments: TranscriptSegment[] = (JSON.parse(response.text).segments || [])
+            .filter((segment: any) => typeof segment?.text === 'string' && segment.text.trim())
+            .map((segment: any) => {
+                const start = parseTimestamp(segment.start);
+                return {
+                    start,
+                    end: Math.max(start, parseTimestamp(segment.end)),
+                    speaker: typeof segment.speaker === 'string' && segment.speaker.trim() ? segment.speaker.trim() : undefined,
+                    text: segment.text.trim(),
+                };
+            });
+        if (segments.length === 0) throw new Error("No speech was found in the recording.");
+        return segments;
     } catch (error: any) {
         console.error("Audio Transcription Error:", error);
         throw new Error(error.message || "Failed to transcribe audio.");
+    } finally {
+        // Uploads expire after two days anyway; there is no reason to keep them that long.
+        if (uploadedName) getAI().files.delete({ name: uploadedName }).catch(() => {});
     }
 };
 
-export const generateSpeech = async (text: string): Promise<string> => {
+// Prebuilt TTS voices; Kore was the only one before voices became selectable, so it stays the default.
+export const SPEECH_VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const generateSpeech = async (text: string, voice = SPEECH_VOICES[0]): Promise<string> => {
     try {
         const ai = getAI();
         const response = await ai.models.generateContent({
@@ -242,7 +555,7 @@ export const generateSpeech = async (text: string): Promise<string> => {
                 responseModalities: [Modality.AUDIO],
                 speechConfig: {
                     voiceConfig: {
-                        prebuiltVoiceConfig: { voiceName: 'Kore' },
+                        prebuiltVoiceConfig: { voiceName: voice },
                     },
                 },
             },
@@ -258,7 +571,7 @@ export const generateSpeech = async (text: string): Promise<string> => {
     }
 };
 
-export const connectLive = async (callbacks: LiveCallbacks): Promise<LiveSession> => {
+export const connectLive = async (callbacks: LiveCallbacks): Promise<Session> => {
     try {
         const ai = getAI();
         return ai.live.connect({
@@ -279,3 +592,65 @@ export const connectLive = async (callbacks: LiveCallbacks): Promise<LiveSession
         throw new Error(error.message || "Failed to connect to live conversation service.");
     }
 };
+
+export const geminiProvider: ModelProvider = {
+    id: 'gemini',
+    name: 'Google Gemini',
+    models: { image: ModelId.IMAGEN, speech: ModelId.TTS },
+    voices: SPEECH_VOICES,
+    streamChat: async (history, options) => {
+        const request = await buildChatRequest(history, options);
+        const firstStream = await startChatStream(request);
+        return (async function* () {
+            let stream = firstStream;
+            let earlierUsage: UsageRecord | undefined; // totals from finished rounds of the tool loop
+            for (let round = 0; ; round++) {
+                const modelParts: any[] = [];
+                const functionCalls: { name?: string; args?: Record<string, unknown> }[] = [];
+                let roundUsage: UsageRecord | undefined;
+                for await (const chunk of stream) {
+                    modelParts.push(...(chunk.candidates?.[0]?.content?.parts || []));
+                    functionCalls.push(...(chunk.functionCalls || []));
+                    const usage = chunk.usageMetadata;
+                    // The model can differ from options.model, e.g. when Thinking Mode switches to Pro.
+                    roundUsage = usage ? {
+                        model: chunk.modelVersion || options.model,
+                        promptTokens: usage.promptTokenCount,
+                        outputTokens: usage.candidatesTokenCount,
+                        thinkingTokens: usage.thoughtsTokenCount,
+                    } : roundUsage;
+                    yield {
+                        text: chunk.text ?? '',
+                        groundingChunks: chunk.candidates?.[0]?.groundingMetadata?.groundingChunks,
+                        usage: roundUsage && addUsage(earlierUsage, roundUsage),
+                    };
+                }
+                if (functionCalls.length === 0 || !options.tools || round >= MAX_TOOL_ROUNDS) return;
+
+                // Answer every call, then let the model continue with the results. The model's own
+                // parts go back unchanged because they carry the thought signatures it needs.
+                earlierUsage = roundUsage && addUsage(earlierUsage, roundUsage);
+                const responseParts: any[] = [];
+                for (const functionCall of functionCalls) {
+                    const toolCall = await options.tools.run(functionCall.name || '', functionCall.args || {});
+                    yield { text: '', toolCall };
+                    responseParts.push({
+                        functionResponse: {
+                            name: toolCall.name,
+                            response: toolCall.error ? { error: toolCall.error } : { result: toolCall.result },
+                        },
+                    });
+                }
+                request.contents.push({ role: 'model', parts: modelParts }, { role: 'user', parts: responseParts });
+                // The last round allows no more calls, so the model has to answer with what it has.
+                if (round + 1 >= MAX_TOOL_ROUNDS) request.config.toolConfig = { functionCallingConfig: { mode: 'NONE' } };
+                stream = await startChatStream(request);
+            }
+        })();
+    },
+    countTokens,
+    summarize: summarizeHistory,
+    generateImage,
+    transcribeAudio,
+    generateSpeech,
+};
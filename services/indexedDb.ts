@@ -0,0 +1,270 @@
+import type { Conversation } from '../types';
+import type { ConversationFieldsUpdate } from './firestore';
+import type { StorageAdapter } from './storage';
+
+// Conversations are stored per owner: a Firebase uid, or GUEST_OWNER_ID for signed-out use.
+// The sync queue holds writes that still have to reach Firestore, in the order they were made;
+// writes Firestore rejected for good are set aside in their own store so the rest can continue.
+// Media blobs live in their own store, keyed by asset id and tagged with the owner who stored
+// them (see services/assets.ts).
+const DB_NAME = 'ripoai';
+const DB_VERSION = 4;
+const CONVERSATIONS_STORE = 'conversations';
+const SYNC_QUEUE_STORE = 'syncQueue';
+const FAILED_SYNC_STORE = 'failedSyncOperations';
+const ASSETS_STORE = 'assets';
+
+export const GUEST_OWNER_ID = 'guest';
+
+interface ConversationRecord {
+  key: string;
+  ownerId: string;
+  conversation: Conversation;
+}
+
+export type SyncOperation =
+  | { type: 'save'; conversationId: string }
+  | { type: 'fields'; conversationId: string; fields: ConversationFieldsUpdate }
+  | { type: 'delete'; conversationId: string };
+
+export type QueuedSyncOperation = SyncOperation & { seq: number; ownerId: string };
+
+export type FailedSyncOperation = QueuedSyncOperation & { error: string; failedAt: Date };
+
+export interface AssetRecord {
+  id: string;
+  ownerId?: string; // unset on assets stored before owners were recorded; those are never uploaded
+  blob: Blob;
+  uploaded: boolean; // whether Firebase Storage has a copy yet
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'key' }).createIndex('ownerId', 'ownerId');
+          db.createObjectStore(SYNC_QUEUE_STORE, { keyPath: 'seq', autoIncrement: true }).createIndex('ownerId', 'ownerId');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(ASSETS_STORE, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(FAILED_SYNC_STORE, { keyPath: 'seq' }).createIndex('ownerId', 'ownerId');
+        }
+        if (event.oldVersion < 4) {
+          request.transaction!.objectStore(ASSETS_STORE).createIndex('ownerId', 'ownerId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry, e.g. after the user closes a tab that was blocking an upgrade.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// Runs `work` in a single transaction and resolves with the result of the request it
+// returns once the transaction has committed.
+const runTransaction = async <T>(
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => IDBRequest<T> | void,
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    const request = work(transaction);
+    transaction.oncomplete = () => resolve(request ? request.result : (undefined as T));
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const recordKey = (ownerId: string, conversationId: string) => `${ownerId}/${conversationId}`;
+
+const toRecord = (ownerId: string, conversation: Conversation): ConversationRecord => ({
+  key: recordKey(ownerId, conversation.id),
+  ownerId,
+  conversation,
+});
+
+export const getLocalConversations = async (ownerId: string): Promise<Conversation[]> => {
+  const records = await runTransaction<ConversationRecord[]>(CONVERSATIONS_STORE, 'readonly', transaction =>
+    transaction.objectStore(CONVERSATIONS_STORE).index('ownerId').getAll(ownerId)
+  );
+  return records
+    .map(record => record.conversation)
+    .sort((a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0));
+};
+
+export const getLocalConversation = async (ownerId: string, conversationId: string): Promise<Conversation | undefined> => {
+  const record = await runTransaction<ConversationRecord | undefined>(CONVERSATIONS_STORE, 'readonly', transaction =>
+    transaction.objectStore(CONVERSATIONS_STORE).get(recordKey(ownerId, conversationId))
+  );
+  return record?.conversation;
+};
+
+export const putLocalConversations = async (ownerId: string, conversations: Conversation[]): Promise<void> => {
+  if (conversations.length === 0) return;
+  await runTransaction(CONVERSATIONS_STORE, 'readwrite', transaction => {
+    const store = transaction.objectStore(CONVERSATIONS_STORE);
+    conversations.forEach(conversation => store.put(toRecord(ownerId, conversation)));
+  });
+};
+
+export const deleteLocalConversations = async (ownerId: string, conversationIds: string[]): Promise<void> => {
+  if (conversationIds.length === 0) return;
+  await runTransaction(CONVERSATIONS_STORE, 'readwrite', transaction => {
+    const store = transaction.objectStore(CONVERSATIONS_STORE);
+    conversationIds.forEach(id => store.delete(recordKey(ownerId, id)));
+  });
+};
+
+export const enqueueSyncOperation = async (ownerId: string, operation: SyncOperation): Promise<void> => {
+  await runTransaction(SYNC_QUEUE_STORE, 'readwrite', transaction => {
+    transaction.objectStore(SYNC_QUEUE_STORE).add({ ...operation, ownerId });
+  });
+};
+
+export const getSyncQueue = (ownerId: string): Promise<QueuedSyncOperation[]> =>
+  // Keys are auto-incremented, so index order within one owner is also queue order.
+  runTransaction<QueuedSyncOperation[]>(SYNC_QUEUE_STORE, 'readonly', transaction =>
+    transaction.objectStore(SYNC_QUEUE_STORE).index('ownerId').getAll(ownerId)
+  );
+
+export const removeSyncOperation = async (seq: number): Promise<void> => {
+  await runTransaction(SYNC_QUEUE_STORE, 'readwrite', transaction => {
+    transaction.objectStore(SYNC_QUEUE_STORE).delete(seq);
+  });
+};
+
+// Takes a write Firestore rejected for good out of the queue and keeps it, with the reason, for inspection.
+export const failSyncOperation = async (operation: QueuedSyncOperation, error: string): Promise<void> => {
+  await runTransaction([SYNC_QUEUE_STORE, FAILED_SYNC_STORE], 'readwrite', transaction => {
+    transaction.objectStore(SYNC_QUEUE_STORE).delete(operation.seq);
+    transaction.objectStore(FAILED_SYNC_STORE).put({ ...operation, error, failedAt: new Date() });
+  });
+};
+
+export const getFailedSyncOperations = (ownerId: string): Promise<FailedSyncOperation[]> =>
+  runTransaction<FailedSyncOperation[]>(FAILED_SYNC_STORE, 'readonly', transaction =>
+    transaction.objectStore(FAILED_SYNC_STORE).index('ownerId').getAll(ownerId)
+  );
+
+// Puts set-aside writes back in the queue, one per conversation, as an upload of its current
+// local state: a save, or a deletion if the conversation is gone by now. Returns how many were queued.
+export const requeueFailedSyncOperations = async (ownerId: string): Promise<number> => {
+  const failed = await getFailedSyncOperations(ownerId);
+  const conversationIds = [...new Set(failed.map(operation => operation.conversationId))];
+  if (conversationIds.length === 0) return 0;
+  const conversations = await Promise.all(conversationIds.map(id => getLocalConversation(ownerId, id)));
+  await runTransaction([SYNC_QUEUE_STORE, FAILED_SYNC_STORE], 'readwrite', transaction => {
+    const failedStore = transaction.objectStore(FAILED_SYNC_STORE);
+    const queue = transaction.objectStore(SYNC_QUEUE_STORE);
+    failed.forEach(operation => failedStore.delete(operation.seq));
+    conversationIds.forEach((conversationId, index) => {
+      queue.add({ type: conversations[index] ? 'save' : 'delete', conversationId, ownerId });
+    });
+  });
+  return conversationIds.length;
+};
+
+export const discardFailedSyncOperations = async (ownerId: string): Promise<void> => {
+  const failed = await getFailedSyncOperations(ownerId);
+  if (failed.length === 0) return;
+  await runTransaction(FAILED_SYNC_STORE, 'readwrite', transaction => {
+    const store = transaction.objectStore(FAILED_SYNC_STORE);
+    failed.forEach(operation => store.delete(operation.seq));
+  });
+};
+
+// Drops every queued and set-aside write for one conversation, e.g. once it is deleted and only
+// the deletion still has to reach Firestore.
+export const clearSyncOperations = async (ownerId: string, conversationId: string): Promise<void> => {
+  const [queue, failed] = await Promise.all([getSyncQueue(ownerId), getFailedSyncOperations(ownerId)]);
+  await runTransaction([SYNC_QUEUE_STORE, FAILED_SYNC_STORE], 'readwrite', transaction => {
+    const queueStore = transaction.objectStore(SYNC_QUEUE_STORE);
+    const failedStore = transaction.objectStore(FAILED_SYNC_STORE);
+    queue.filter(operation => operation.conversationId === conversationId).forEach(operation => queueStore.delete(operation.seq));
+    failed.filter(operation => operation.conversationId === conversationId).forEach(operation => failedStore.delete(operation.seq));
+  });
+};
+
+// Moves every conversation from one owner to another and queues each one for upload, e.g.
+// to keep the chats someone had as a guest after they sign in.
+export const transferLocalConversations = async (fromOwnerId: string, toOwnerId: string): Promise<number> => {
+  const conversations = await getLocalConversations(fromOwnerId);
+  if (conversations.length === 0) return 0;
+  await runTransaction([CONVERSATIONS_STORE, SYNC_QUEUE_STORE], 'readwrite', transaction => {
+    const store = transaction.objectStore(CONVERSATIONS_STORE);
+    const queue = transaction.objectStore(SYNC_QUEUE_STORE);
+    conversations.forEach(conversation => {
+      store.delete(recordKey(fromOwnerId, conversation.id));
+      store.put(toRecord(toOwnerId, conversation));
+      queue.add({ type: 'save', conversationId: conversation.id, ownerId: toOwnerId });
+    });
+  });
+  return conversations.length;
+};
+
+export const getLocalAsset = (id: string): Promise<AssetRecord | undefined> =>
+  runTransaction<AssetRecord | undefined>(ASSETS_STORE, 'readonly', transaction =>
+    transaction.objectStore(ASSETS_STORE).get(id)
+  );
+
+export const putLocalAsset = async (record: AssetRecord): Promise<void> => {
+  await runTransaction(ASSETS_STORE, 'readwrite', transaction => {
+    transaction.objectStore(ASSETS_STORE).put(record);
+  });
+};
+
+const getLocalAssets = (ownerId: string): Promise<AssetRecord[]> =>
+  runTransaction<AssetRecord[]>(ASSETS_STORE, 'readonly', transaction =>
+    transaction.objectStore(ASSETS_STORE).index('ownerId').getAll(ownerId)
+  );
+
+export const getUnuploadedAssetIds = async (ownerId: string): Promise<string[]> => {
+  const records = await getLocalAssets(ownerId);
+  return records.filter(record => !record.uploaded).map(record => record.id);
+};
+
+// Hands every asset of one owner to another, like transferLocalConversations does for chats.
+export const transferLocalAssets = async (fromOwnerId: string, toOwnerId: string): Promise<number> => {
+  const records = await getLocalAssets(fromOwnerId);
+  if (records.length === 0) return 0;
+  await runTransaction(ASSETS_STORE, 'readwrite', transaction => {
+    const store = transaction.objectStore(ASSETS_STORE);
+    records.forEach(record => store.put({ ...record, ownerId: toOwnerId }));
+  });
+  return records.length;
+};
+
+// A StorageAdapter over this device's copy of one owner's conversations.
+export const createIndexedDbAdapter = (ownerId: string): StorageAdapter => ({
+  fetchConversations: () => getLocalConversations(ownerId),
+  createConversation: async (conversationData) => {
+    const now = new Date();
+    const conversation: Conversation = { createdAt: now, ...conversationData, id: crypto.randomUUID(), updatedAt: now };
+    await putLocalConversations(ownerId, [conversation]);
+    return conversation;
+  },
+  updateConversation: async (conversation) => {
+    const existing = await getLocalConversation(ownerId, conversation.id);
+    await putLocalConversations(ownerId, [{ ...existing, ...conversation, updatedAt: new Date() }]);
+  },
+  updateConversationFields: async (conversationId, fields) => {
+    const existing = await getLocalConversation(ownerId, conversationId);
+    if (!existing) return;
+    const { deletedAt, ...rest } = fields;
+    const updated: Conversation = { ...existing, ...rest };
+    if (deletedAt !== undefined) updated.deletedAt = deletedAt || undefined;
+    await putLocalConversations(ownerId, [updated]);
+  },
+  deleteConversation: (conversationId) => deleteLocalConversations(ownerId, [conversationId]),
+});
@@ -0,0 +1,309 @@
+import type { AspectRatio, ImageGenSettings, Message, ToolCall, TranscriptSegment, UsageRecord } from '../types';
+import type { ChatOptions, ChatStreamChunk, ModelProvider } from './providers';
+import { buildHistoryContents } from './gemini';
+import { estimateHistoryTokens, buildSummaryRequest, SUMMARY_INSTRUCTION } from './context';
+import { addUsage } from './usage';
+import { fileToBase64 } from '../utils';
+import { fileToPart, formatFileSize } from './attachments';
+
+// Talks to any server that implements the OpenAI REST API: OpenAI itself, Ollama, llama.cpp,
+// vLLM, LM Studio, etc. Configure it through the OPENAI_* variables in .env.local.
+const config = {
+    baseUrl: (process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, ''),
+    apiKey: process.env.OPENAI_API_KEY || '',
+    chatModel: process.env.OPENAI_CHAT_MODEL || 'llama3.1',
+    imageModel: process.env.OPENAI_IMAGE_MODEL || 'dall-e-3',
+    transcriptionModel: process.env.OPENAI_TRANSCRIPTION_MODEL || 'whisper-1',
+    ttsModel: process.env.OPENAI_TTS_MODEL || 'tts-1',
+    ttsVoice: process.env.OPENAI_TTS_VOICE || 'alloy',
+};
+
+const authHeaders = (): Record<string, string> =>
+    config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+const request = async (path: string, init: RequestInit): Promise<Response> => {
+    let response: Response;
+    try {
+        response = await fetch(`${config.baseUrl}${path}`, {
+            ...init,
+            headers: { ...authHeaders(), ...init.headers },
+        });
+    } catch (error: any) {
+        if (error.name === 'AbortError') throw error;
+        throw new Error(`Could not reach the model server at ${config.baseUrl}. Is it running?`);
+    }
+    if (!response.ok) {
+        let detail = response.statusText;
+        try {
+            const body = await response.json();
+            detail = body.error?.message || body.error || detail;
+        } catch { /* not a JSON error body */ }
+        throw new Error(`Model server error (${response.status}): ${detail}`);
+    }
+    return response;
+};
+
+// Converts Gemini-style contents into OpenAI chat messages. Images become image_url parts and PDFs
+// file parts; media the Chat Completions API can't take is described in text instead.
+const toOpenAIContent = (parts: any[]) => parts.map(part => {
+    if (part.text !== undefined) return { type: 'text', text: part.text };
+    const { mimeType, data } = part.inlineData;
+    if (mimeType.startsWith('image/')) {
+        return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+    }
+    if (mimeType === 'application/pdf') {
+        return { type: 'file', file: { filename: part.fileName || 'document.pdf', file_data: `data:${mimeType};base64,${data}` } };
+    }
+    return { type: 'text', text: `[A ${mimeType} attachment was included here but this model can't read it.]` };
+});
+
+// How many times one reply may go back to the model with tool results before it must answer.
+const MAX_TOOL_ROUNDS = 5;
+
+type ChatMessage = { role: string; content: any; tool_calls?: any[]; tool_call_id?: string };
+
+// Gemini schemas spell types in capitals ("OBJECT"); JSON Schema wants them in lower case.
+const toJsonSchema = (schema: any): any => {
+    if (Array.isArray(schema)) return schema.map(toJsonSchema);
+    if (!schema || typeof schema !== 'object') return schema;
+    return Object.fromEntries(Object.entries(schema).map(([key, value]) =>
+        [key, key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value)]));
+};
+
+type OpenAITool = {
+    type: 'function';
+    function: { name: string; description?: string; parameters?: Record<string, unknown> };
+};
+
+// Set once the server has turned down a request for offering tools. Many local models can't call
+// them, so later chats leave them out instead of failing the same way again.
+let toolsUnsupported = false;
+
+const isToolsRejection = (error: any) =>
+    error.name !== 'AbortError' && /\(4\d\d\)/.test(error.message) && /tool|function/i.test(error.message);
+
+const openChatStream = async (messages: ChatMessage[], tools: OpenAITool[] | undefined, signal?: AbortSignal) => {
+    const send = (offeredTools: OpenAITool[] | undefined) => request('/chat/completions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: config.chatModel, messages, tools: offeredTools, stream: true, stream_options: { include_usage: true } }),
+        signal,
+    });
+    let response: Response;
+    try {
+        response = await send(toolsUnsupported ? undefined : tools);
+    } catch (error: any) {
+        if (!tools || toolsUnsupported || !isToolsRejection(error)) throw error;
+        console.warn("The model server rejected tools, retrying without them:", error);
+        response = await send(undefined);
+        toolsUnsupported = true;
+    }
+    if (!response.body) throw new Error("The model server returned an empty response.");
+    return response.body.getReader();
+};
+
+// Yields the JSON events of a server-sent event stream until "[DONE]".
+async function* readStreamEvents(reader: ReadableStreamDefaultReader<Uint8Array>): AsyncGenerator<any> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+            const trimmed = line.trim();
+            if (!trimmed.startsWith('data:')) continue;
+            const payload = trimmed.slice(5).trim();
+            if (payload === '[DONE]') return;
+            try {
+                yield JSON.parse(payload);
+            } catch {
+                console.warn("Skipping malformed stream event:", payload);
+            }
+        }
+    }
+}
+
+const streamChat = async (history: Parameters<ModelProvider['streamChat']>[0], options: ChatOptions): Promise<AsyncIterable<ChatStreamChunk>> => {
+    const { prompt, image, video, attachments, systemInstruction, tools: toolRunner, signal } = options;
+    const userParts: any[] = [{ text: prompt }];
+    if (image) userParts.push({ inlineData: { mimeType: image.type, data: await fileToBase64(image) } });
+    if (video) userParts.push({ text: `[The user attached a video (${video.name}) but this model can't watch videos.]` });
+    for (const file of attachments || []) userParts.push(await fileToPart(file));
+
+    const contents = [...await buildHistoryContents(history), { role: 'user', parts: userParts }];
+    const messages: ChatMessage[] = contents.map(content => ({
+        role: content.role === 'model' ? 'assistant' : 'user',
+        content: toOpenAIContent(content.parts),
+    }));
+    if (systemInstruction?.trim()) messages.unshift({ role: 'system', content: systemInstruction });
+
+    const tools = toolRunner?.declarations.map((declaration): OpenAITool => ({
+        type: 'function',
+        function: { name: declaration.name, description: declaration.description, parameters: toJsonSchema(declaration.parameters) },
+    }));
+    const firstReader = await openChatStream(messages, tools, signal);
+
+    return (async function* () {
+        let reader = firstReader;
+        let earlierUsage: UsageRecord | undefined; // totals from finished rounds of the tool loop
+        for (let round = 0; ; round++) {
+            let roundText = '';
+            const toolCalls: { id: string; name: string; arguments: string }[] = [];
+            for await (const event of readStreamEvents(reader)) {
+                const delta = event.choices?.[0]?.delta;
+                if (delta?.content) {
+                    roundText += delta.content;
+                    yield { text: delta.content };
+                }
+                // Tool calls arrive in fragments keyed by index: the id and name first, then the arguments.
+                for (const fragment of delta?.tool_calls || []) {
+                    const call = toolCalls[fragment.index ?? 0] ?? (toolCalls[fragment.index ?? 0] = { id: '', name: '', arguments: '' });
+                    if (fragment.id) call.id = fragment.id;
+                    if (fragment.function?.name) call.name += fragment.function.name;
+                    if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+                }
+                // Servers that honour include_usage send the totals in a final event without choices.
+                if (event.usage) {
+                    // completion_tokens includes reasoning; UsageRecord counts the two separately.
+                    const thinkingTokens = event.usage.completion_tokens_details?.reasoning_tokens ?? 0;
+                    earlierUsage = addUsage(earlierUsage, {
+                        model: event.model || config.chatModel,
+                        promptTokens: event.usage.prompt_tokens,
+                        outputTokens: (event.usage.completion_tokens ?? 0) - thinkingTokens,
+                        thinkingTokens,
+                    });
+                    yield { text: '', usage: earlierUsage };
+                }
+            }
+            const calls = toolCalls.filter(Boolean);
+            if (calls.length === 0 || !toolRunner || round >= MAX_TOOL_ROUNDS) return;
+
+            messages.push({
+                role: 'assistant',
+                content: roundText || null,
+                tool_calls: calls.map(call => ({ id: call.id, type: 'function', function: { name: call.name, arguments: call.arguments } })),
+            });
+            for (const call of calls) {
+                let args: Record<string, unknown> | null = null;
+                try {
+                    args = JSON.parse(call.arguments || '{}');
+                } catch { /* answered with an error below */ }
+                const toolCall: ToolCall = args
+                    ? await toolRunner.run(call.name, args)
+                    : { id: call.id, name: call.name, args: {}, error: `The arguments were not valid JSON: ${call.arguments}` };
+                yield { text: '', toolCall };
+                messages.push({
+                    role: 'tool',
+                    tool_call_id: call.id,
+                    content: JSON.stringify(toolCall.error ? { error: toolCall.error } : toolCall.result),
+                });
+            }
+            // The last round offers no tools, so the model has to answer with what it has.
+            reader = await openChatStream(messages, round + 1 < MAX_TOOL_ROUNDS ? tools : undefined, signal);
+        }
+    })();
+};
+
+// Folds `messages` into the running summary of a conversation's earlier turns, with the chat model.
+const summarize = async (previousSummary: string | undefined, messages: Message[], signal?: AbortSignal): Promise<string> => {
+    const response = await request('/chat/completions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+            model: config.chatModel,
+            messages: [
+                { role: 'system', content: SUMMARY_INSTRUCTION },
+                { role: 'user', content: buildSummaryRequest(previousSummary, messages) },
+            ],
+        }),
+        signal,
+    });
+    const result = await response.json();
+    const summary = String(result.choices?.[0]?.message?.content ?? '').trim();
+    if (!summary) throw new Error("Summarization returned no text.");
+    return summary;
+};
+
+// The Images API only offers a few fixed sizes, so map each ratio to the closest one.
+const IMAGE_SIZES: Record<AspectRatio, string> = {
+    '1:1': '1024x1024',
+    '16:9': '1792x1024',
+    '4:3': '1792x1024',
+    '9:16': '1024x1792',
+    '3:4': '1024x1792',
+};
+
+// Each image is its own request: DALL-E 3 only returns one per call. The Images API has no
+// negative prompt, so it is folded into the prompt, and results are always PNG.
+const generateImage = async (prompt: string, settings: ImageGenSettings, signal?: AbortSignal): Promise<string[]> => {
+    const fullPrompt = settings.negativePrompt?.trim() ? `${prompt}\n\nAvoid: ${settings.negativePrompt.trim()}` : prompt;
+    const generateOne = async () => {
+        const response = await request('/images/generations', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ model: config.imageModel, prompt: fullPrompt, n: 1, size: IMAGE_SIZES[settings.aspectRatio], response_format: 'b64_json' }),
+            signal,
+        });
+        const result = await response.json();
+        const base64 = result.data?.[0]?.b64_json;
+        if (!base64) throw new Error("Image generation failed to produce an image.");
+        return `data:image/png;base64,${base64}`;
+    };
+    return Promise.all(Array.from({ length: settings.count }, generateOne));
+};
+
+// The OpenAI transcription endpoint takes files up to 25 MB; local servers are held to the same.
+const MAX_TRANSCRIPTION_SIZE = 25 * 1024 * 1024;
+
+// Whisper-style servers return timed segments with "verbose_json" but can't tell speakers apart.
+// Servers without segments get the whole text as one.
+const transcribeAudio = async (mediaFile: File, signal?: AbortSignal): Promise<TranscriptSegment[]> => {
+    if (mediaFile.size > MAX_TRANSCRIPTION_SIZE) {
+        throw new Error(`The recording is ${formatFileSize(mediaFile.size)}; the transcription server takes files up to ${formatFileSize(MAX_TRANSCRIPTION_SIZE)}. Try a shorter or more compressed recording.`);
+    }
+    const body = new FormData();
+    body.append('file', mediaFile);
+    body.append('model', config.transcriptionModel);
+    body.append('response_format', 'verbose_json');
+    const response = await request('/audio/transcriptions', { method: 'POST', body, signal });
+    const result = await response.json();
+    if (Array.isArray(result.segments) && result.segments.length > 0) {
+        return result.segments
+            .map((segment: any) => ({ start: Number(segment.start) || 0, end: Number(segment.end) || 0, text: String(segment.text ?? '').trim() }))
+            .filter((segment: TranscriptSegment) => segment.text);
+    }
+    const text = String(result.text ?? '').trim();
+    if (!text) throw new Error("No speech was found in the recording.");
+    return [{ start: 0, end: Number(result.duration) || 0, text }];
+};
+
+// The configured voice comes first, so it stays the default.
+const VOICES = [...new Set([config.ttsVoice, 'alloy', 'ash', 'coral', 'echo', 'fable', 'nova', 'onyx', 'sage', 'shimmer'])];
+
+const generateSpeech = async (text: string, voice = config.ttsVoice): Promise<string> => {
+    // The "pcm" format is raw 16-bit mono at 24 kHz, the same shape Gemini TTS returns.
+    const response = await request('/audio/speech', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: config.ttsModel, voice, input: text, response_format: 'pcm' }),
+    });
+    const buffer = await response.arrayBuffer();
+    return fileToBase64(new File([buffer], 'speech.pcm', { type: 'audio/pcm' }));
+};
+
+export const openAICompatibleProvider: ModelProvider = {
+    id: 'openai-compatible',
+    name: 'OpenAI-compatible',
+    models: { image: config.imageModel, speech: config.ttsModel },
+    voices: VOICES,
+    streamChat,
+    // The OpenAI API has no token counting endpoint, and tokenizers differ between local models.
+    countTokens: async (history) => estimateHistoryTokens(history),
+    summarize,
+    generateImage,
+    transcribeAudio,
+    generateSpeech,
+};
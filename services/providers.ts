@@ -0,0 +1,49 @@
+import type { GroundingChunk } from '@google/genai';
+import type { Message, ModelId, ImageGenSettings, ProviderId, UsageRecord, ToolCall, TranscriptSegment } from '../types';
+import type { ToolRunner } from './tools';
+import { geminiProvider } from './gemini';
+import { openAICompatibleProvider } from './openai';
+
+export interface ChatOptions {
+  prompt: string;
+  image?: File;
+  video?: File;
+  attachments?: File[]; // documents and images, sent after the prompt
+  model: ModelId;
+  useSearch?: boolean;
+  useMaps?: boolean;
+  useThinkingMode?: boolean;
+  systemInstruction?: string;
+  tools?: ToolRunner; // local tools the model may call before answering
+  signal?: AbortSignal;
+}
+
+// A provider-neutral piece of a streamed chat reply.
+export interface ChatStreamChunk {
+  text: string;
+  groundingChunks?: GroundingChunk[];
+  usage?: UsageRecord; // running totals for the whole reply so far; the last one is final
+  toolCall?: ToolCall; // a finished local tool call; the reply continues with its result
+}
+
+// The operations every model backend must offer. Gemini-only features (image editing, Veo,
+// Canvas and the Live API) stay in services/gemini.ts.
+export interface ModelProvider {
+  id: ProviderId;
+  name: string;
+  models: { image: string; speech: string }; // recorded with usage for calls billed per unit
+  voices: string[]; // speech voices; the first is the default
+  streamChat: (history: Message[], options: ChatOptions) => Promise<AsyncIterable<ChatStreamChunk>>;
+  countTokens: (history: Message[], model: ModelId, signal?: AbortSignal) => Promise<number>; // may be an estimate
+  summarize: (previousSummary: string | undefined, messages: Message[], signal?: AbortSignal) => Promise<string>; // see services/context.ts
+  generateImage: (prompt: string, settings: ImageGenSettings, signal?: AbortSignal) => Promise<string[]>; // data URLs
+  transcribeAudio: (mediaFile: File, signal?: AbortSignal) => Promise<TranscriptSegment[]>; // audio or video
+  generateSpeech: (text: string, voice?: string) => Promise<string>; // base64 16-bit mono PCM at 24 kHz
+}
+
+const PROVIDERS: Record<ProviderId, ModelProvider> = {
+  'gemini': geminiProvider,
+  'openai-compatible': openAICompatibleProvider,
+};
+
+export const getProvider = (id: ProviderId = 'gemini'): ModelProvider => PROVIDERS[id];
@@ -0,0 +1,43 @@
+import type { ModelProvider } from './providers';
+import { decode, pcmToWav } from '../utils';
+
+// Text-to-speech for chat replies. Synthesized audio is cached per message and voice for the
+// session, so replaying, pausing or downloading a reply doesn't call (and bill) the model again.
+
+export const SPEECH_SAMPLE_RATE = 24000; // both providers return 16-bit mono PCM at this rate
+
+const MAX_CACHED_CLIPS = 20;
+
+interface CachedClip {
+  text: string; // a reply whose text changed must be spoken again
+  wav: Promise<Blob>;
+}
+
+// Insertion order doubles as recency: hits are moved to the end, the oldest entry is evicted.
+const cache = new Map<string, CachedClip>();
+
+// Picks the voice to speak with: the preferred one when this provider has it, else its default.
+export const resolveVoice = (provider: ModelProvider, preferred?: string): string =>
+  preferred && provider.voices.includes(preferred) ? preferred : provider.voices[0];
+
+// Returns the reply as a WAV file. `onSynthesized` runs only when the model was actually called,
+// so usage is recorded once per clip.
+export const getSpeech = (provider: ModelProvider, messageId: string, text: string, voice: string, onSynthesized?: () => void): Promise<Blob> => {
+  const key = `${provider.id}:${voice}:${messageId}`;
+  const cached = cache.get(key);
+  cache.delete(key);
+  if (cached && cached.text === text) {
+    cache.set(key, cached);
+    return cached.wav;
+  }
+
+  const wav = provider.generateSpeech(text, voice).then(base64Audio => {
+    onSynthesized?.();
+    return pcmToWav(decode(base64Audio), SPEECH_SAMPLE_RATE, 1);
+  });
+  // Failures aren't cached, so the next attempt tries again.
+  wav.catch(() => { if (cache.get(key)?.wav === wav) cache.delete(key); });
+  cache.set(key, { text, wav });
+  if (cache.size > MAX_CACHED_CLIPS) cache.delete(cache.keys().next().value!);
+  return wav;
+};
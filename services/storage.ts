@@ -0,0 +1,219 @@
+import type { Conversation } from '../types';
+import * as firestore from './firestore';
+import type { ConversationFieldsUpdate } from './firestore';
+import {
+  clearSyncOperations, createIndexedDbAdapter, deleteLocalConversations, discardFailedSyncOperations, enqueueSyncOperation,
+  failSyncOperation, getFailedSyncOperations, getLocalConversation, getSyncQueue, putLocalConversations, removeSyncOperation,
+  requeueFailedSyncOperations, transferLocalConversations, GUEST_OWNER_ID,
+  type QueuedSyncOperation, type SyncOperation,
+} from './indexedDb';
+
+// Where one owner's conversations are read from and written to.
+export interface StorageAdapter {
+  fetchConversations: () => Promise<Conversation[]>;
+  createConversation: (conversationData: Omit<Conversation, 'id'>) => Promise<Conversation>;
+  updateConversation: (conversation: Conversation) => Promise<void>;
+  updateConversationFields: (conversationId: string, fields: ConversationFieldsUpdate) => Promise<void>;
+  deleteConversation: (conversationId: string) => Promise<void>;
+}
+
+export interface SyncState {
+  online: boolean;
+  syncing: boolean;
+  pending: number; // writes waiting in the queue
+  failed: number; // writes Firestore rejected for good, kept out of the queue
+  localOnly: boolean; // guest mode: nothing is ever uploaded
+}
+
+export interface LocalFirstStorage extends StorageAdapter {
+  sync: () => Promise<void>;
+  retryFailed: () => Promise<void>; // queues the set-aside conversations for upload again
+  discardFailed: () => Promise<void>; // forgets them; the next refresh from Firestore may replace them
+  adoptGuestConversations: () => Promise<void>;
+  subscribe: (listener: (state: SyncState) => void) => () => void;
+  dispose: () => void;
+}
+
+export const createFirestoreAdapter = (userId: string): StorageAdapter => ({
+  fetchConversations: () => firestore.fetchConversations(userId),
+  createConversation: (conversationData) => firestore.createConversation(userId, conversationData),
+  updateConversation: (conversation) => firestore.updateConversation(userId, conversation),
+  updateConversationFields: (conversationId, fields) => firestore.updateConversationFields(userId, conversationId, fields),
+  deleteConversation: (conversationId) => firestore.deleteConversation(userId, conversationId),
+});
+
+// Every read and write goes to IndexedDB first, so the app keeps working offline or without an
+// account. With a `remote`, each write is also queued and replayed against it in order whenever
+// the browser is online. A write that may succeed later (offline, quota, timeout) stays at the head
+// of the queue until the next attempt; one Firestore rejects for good is set aside so it can't block
+// the writes after it, and its conversation is kept as it is locally until the user retries or
+// discards it.
+export const createLocalFirstStorage = (ownerId: string, remote: StorageAdapter | null): LocalFirstStorage => {
+  const local = createIndexedDbAdapter(ownerId);
+  const listeners = new Set<(state: SyncState) => void>();
+  let state: SyncState = { online: navigator.onLine, syncing: false, pending: 0, failed: 0, localOnly: !remote };
+  let syncRequested = false;
+  let disposed = false;
+
+  const setState = (update: Partial<SyncState>) => {
+    state = { ...state, ...update };
+    listeners.forEach(listener => listener(state));
+  };
+
+  const refreshPending = async () => {
+    if (!remote) return;
+    const [queue, failed] = await Promise.all([getSyncQueue(ownerId), getFailedSyncOperations(ownerId)]);
+    setState({ pending: queue.length, failed: failed.length });
+  };
+
+  const queueWrite = async (operation: SyncOperation) => {
+    if (!remote) return;
+    await enqueueSyncOperation(ownerId, operation);
+    setState({ pending: state.pending + 1 });
+    sync();
+  };
+
+  const pushOperation = async (operation: QueuedSyncOperation, laterOperations: QueuedSyncOperation[]) => {
+    if (!remote) return;
+    switch (operation.type) {
+      case 'save': {
+        // Saves upload the latest local copy, so one directly followed by another is redundant.
+        const next = laterOperations.find(later => later.conversationId === operation.conversationId);
+        if (next?.type === 'save') return;
+        const conversation = await getLocalConversation(ownerId, operation.conversationId);
+        if (conversation) await remote.updateConversation(conversation);
+        return;
+      }
+      case 'fields':
+        return remote.updateConversationFields(operation.conversationId, operation.fields);
+      case 'delete':
+        return remote.deleteConversation(operation.conversationId);
+    }
+  };
+
+  const sync = async () => {
+    if (!remote || disposed || !navigator.onLine) return;
+    if (state.syncing) {
+      syncRequested = true;
+      return;
+    }
+    setState({ syncing: true });
+    try {
+      const queue = await getSyncQueue(ownerId);
+      for (let index = 0; index < queue.length && !disposed; index++) {
+        const operation = queue[index];
+        try {
+          await pushOperation(operation, queue.slice(index + 1));
+        } catch (error) {
+          if (!firestore.isPermanentWriteError(error)) throw error;
+          // A change to a conversation deleted since has nothing left to keep.
+          if (operation.type === 'delete' || await getLocalConversation(ownerId, operation.conversationId)) {
+            console.error("Setting aside a change Firestore rejected:", operation, error);
+            await failSyncOperation(operation, (error as Error).message);
+            setState({ pending: Math.max(0, state.pending - 1), failed: state.failed + 1 });
+            continue;
+          }
+        }
+        await removeSyncOperation(operation.seq);
+        setState({ pending: Math.max(0, state.pending - 1) });
+      }
+    } catch (error) {
+      console.error("Sync paused, will retry when back online:", error);
+    } finally {
+      setState({ syncing: false });
+      await refreshPending().catch(error => console.error("Failed to read the sync queue:", error));
+      if (syncRequested && !disposed) {
+        syncRequested = false;
+        sync();
+      }
+    }
+  };
+
+  const handleOnline = () => {
+    setState({ online: true });
+    sync();
+  };
+  const handleOffline = () => setState({ online: false });
+  window.addEventListener('online', handleOnline);
+  window.addEventListener('offline', handleOffline);
+  refreshPending().catch(error => console.error("Failed to read the sync queue:", error));
+
+  return {
+    fetchConversations: async () => {
+      const localConversations = await local.fetchConversations();
+      if (!remote || !navigator.onLine) return localConversations;
+
+      let remoteConversations: Conversation[];
+      try {
+        remoteConversations = await remote.fetchConversations();
+      } catch (error) {
+        // Misconfigured security rules need fixing, not hiding behind the local copy.
+        if (firestore.isPermissionError(error)) throw error;
+        console.warn("Using the local copy of conversations:", error);
+        return localConversations;
+      }
+
+      // Firestore wins, except for conversations with local changes that haven't been uploaded,
+      // whether still queued or set aside after Firestore rejected them.
+      const [queue, failed] = await Promise.all([getSyncQueue(ownerId), getFailedSyncOperations(ownerId)]);
+      const unsynced = new Set([...queue, ...failed].map(operation => operation.conversationId));
+      const remoteIds = new Set(remoteConversations.map(c => c.id));
+      const fromRemote = remoteConversations.filter(c => !unsynced.has(c.id));
+      const deletedElsewhere = localConversations.filter(c => !remoteIds.has(c.id) && !unsynced.has(c.id));
+      await putLocalConversations(ownerId, fromRemote);
+      await deleteLocalConversations(ownerId, deletedElsewhere.map(c => c.id));
+      sync();
+      return local.fetchConversations();
+    },
+    createConversation: async (conversationData) => {
+      const conversation = await local.createConversation(conversationData);
+      await queueWrite({ type: 'save', conversationId: conversation.id });
+      return conversation;
+    },
+    updateConversation: async (conversation) => {
+      await local.updateConversation(conversation);
+      await queueWrite({ type: 'save', conversationId: conversation.id });
+    },
+    updateConversationFields: async (conversationId, fields) => {
+      await local.updateConversationFields(conversationId, fields);
+      await queueWrite({ type: 'fields', conversationId, fields });
+    },
+    deleteConversation: async (conversationId) => {
+      await local.deleteConversation(conversationId);
+      if (!remote) return;
+      await clearSyncOperations(ownerId, conversationId);
+      await refreshPending();
+      await queueWrite({ type: 'delete', conversationId });
+    },
+    sync,
+    retryFailed: async () => {
+      if (!remote) return;
+      await requeueFailedSyncOperations(ownerId);
+      await refreshPending();
+      sync();
+    },
+    discardFailed: async () => {
+      if (!remote) return;
+      await discardFailedSyncOperations(ownerId);
+      await refreshPending();
+    },
+    adoptGuestConversations: async () => {
+      if (!remote || ownerId === GUEST_OWNER_ID) return;
+      if (await transferLocalConversations(GUEST_OWNER_ID, ownerId) > 0) {
+        await refreshPending();
+        sync();
+      }
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      listener(state);
+      return () => { listeners.delete(listener); };
+    },
+    dispose: () => {
+      disposed = true;
+      listeners.clear();
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    },
+  };
+};
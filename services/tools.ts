@@ -0,0 +1,228 @@
+import { Type, type FunctionDeclaration } from '@google/genai';
+import type { Conversation, ToolCall } from '../types';
+import { searchConversations } from '../utils';
+
+// Local tools the chat model can call. Each tool declares its parameters as a Gemini schema and
+// runs in the browser; the providers run the call/response loop (see ToolRunner).
+
+export interface ToolContext {
+  conversations: Conversation[]; // what "search my conversations" looks through
+}
+
+interface LocalTool {
+  declaration: FunctionDeclaration & { name: string };
+  label: string; // shown on the collapsible step in the chat
+  run: (args: Record<string, any>, context: ToolContext) => unknown;
+}
+
+// What a provider needs to offer tools to the model and answer its calls.
+export interface ToolRunner {
+  declarations: FunctionDeclaration[];
+  run: (name: string, args: Record<string, unknown>) => Promise<ToolCall>;
+}
+
+// --- Calculator ---
+// A small recursive-descent parser, so model-written expressions never reach eval().
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sqrt: Math.sqrt, abs: Math.abs, round: Math.round, floor: Math.floor, ceil: Math.ceil,
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  ln: Math.log, log: Math.log10, log2: Math.log2, exp: Math.exp,
+};
+const CONSTANTS: Record<string, number> = { pi: Math.PI, e: Math.E };
+
+export const evaluateExpression = (expression: string): number => {
+  const tokens = expression.replace(/\*\*/g, '^').match(/\d*\.?\d+(?:e[+-]?\d+)?|[a-z_]\w*|[-+*/^%(),]/gi) || [];
+  if (tokens.join('') !== expression.replace(/\*\*/g, '^').replace(/\s+/g, '')) {
+    throw new Error(`Unsupported characters in "${expression}".`);
+  }
+  let position = 0;
+  const peek = () => tokens[position];
+  const next = () => tokens[position++];
+  const expect = (token: string) => {
+    if (next() !== token) throw new Error(`Expected "${token}" in "${expression}".`);
+  };
+
+  // sum := product (("+" | "-") product)*
+  const sum = (): number => {
+    let value = product();
+    while (peek() === '+' || peek() === '-') value = next() === '+' ? value + product() : value - product();
+    return value;
+  };
+  // product := unary (("*" | "/" | "%") unary)*
+  const product = (): number => {
+    let value = unary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const operator = next();
+      const right = unary();
+      value = operator === '*' ? value * right : operator === '/' ? value / right : value % right;
+    }
+    return value;
+  };
+  // unary := ("-" | "+") unary | power
+  // Signs bind looser than "^", as in maths: -2^2 is -4.
+  const unary = (): number => {
+    if (peek() === '-') { next(); return -unary(); }
+    if (peek() === '+') { next(); return unary(); }
+    return power();
+  };
+  // power := primary ("^" unary)?
+  const power = (): number => {
+    const base = primary();
+    return peek() === '^' ? (next(), Math.pow(base, unary())) : base;
+  };
+  const primary = (): number => {
+    const token = next();
+    if (token === undefined) throw new Error(`"${expression}" ends unexpectedly.`);
+    if (token === '(') {
+      const value = sum();
+      expect(')');
+      return value;
+    }
+    if (/^\d|^\./.test(token)) return parseFloat(token);
+    const name = token.toLowerCase();
+    // Own keys only, so names like "constructor" don't reach Object.prototype.
+    if (Object.hasOwn(FUNCTIONS, name)) {
+      expect('(');
+      const value = sum();
+      expect(')');
+      return FUNCTIONS[name](value);
+    }
+    if (Object.hasOwn(CONSTANTS, name)) return CONSTANTS[name];
+    throw new Error(`Unknown name "${token}" in "${expression}".`);
+  };
+
+  const value = sum();
+  if (position < tokens.length) throw new Error(`Unexpected "${tokens[position]}" in "${expression}".`);
+  if (!isFinite(value)) throw new Error(`"${expression}" has no finite result.`);
+  return value;
+};
+
+const calculator: LocalTool = {
+  label: 'Calculator',
+  declaration: {
+    name: 'calculate',
+    description: 'Evaluates an arithmetic expression exactly. Use it for any calculation instead of doing math in your head. Supports + - * / % ^, parentheses, pi, e and the functions sqrt, abs, round, floor, ceil, sin, cos, tan, asin, acos, atan, ln, log (base 10), log2 and exp. Angles are in radians.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        expression: { type: Type.STRING, description: 'For example "(3.5 + 2) * 4 ^ 2" or "sqrt(2) / 2".' },
+      },
+      required: ['expression'],
+    },
+  },
+  run: ({ expression }) => ({ expression, value: evaluateExpression(String(expression)) }),
+};
+
+// --- Date and time ---
+
+const dateTime: LocalTool = {
+  label: 'Date & time',
+  declaration: {
+    name: 'get_current_datetime',
+    description: "Returns the current date and time, in the user's time zone or in a given IANA time zone.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        timeZone: { type: Type.STRING, description: 'An IANA time zone such as "Europe/Paris". Leave out for the user\'s own time zone.' },
+      },
+    },
+  },
+  run: ({ timeZone }) => {
+    const now = new Date();
+    const zone = timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    let local: string;
+    try {
+      local = now.toLocaleString('en-US', { timeZone: zone, dateStyle: 'full', timeStyle: 'long' });
+    } catch {
+      throw new Error(`Unknown time zone "${timeZone}".`);
+    }
+    return { timeZone: zone, local, iso: now.toISOString() };
+  },
+};
+
+// --- Unit conversion ---
+// Factors convert to the first unit of each group; temperature needs offsets, so it's handled apart.
+
+const UNIT_GROUPS: Record<string, Record<string, number>> = {
+  length: { m: 1, km: 1000, cm: 0.01, mm: 0.001, mi: 1609.344, yd: 0.9144, ft: 0.3048, in: 0.0254, nmi: 1852 },
+  mass: { kg: 1, g: 0.001, mg: 1e-6, t: 1000, lb: 0.45359237, oz: 0.028349523125, st: 6.35029318 },
+  volume: { l: 1, ml: 0.001, m3: 1000, gal: 3.785411784, qt: 0.946352946, pt: 0.473176473, cup: 0.2365882365, floz: 0.0295735295625, tbsp: 0.01478676478125, tsp: 0.00492892159375 },
+  time: { s: 1, ms: 0.001, min: 60, h: 3600, day: 86400, week: 604800, year: 31557600 },
+  speed: { 'm/s': 1, 'km/h': 1 / 3.6, mph: 0.44704, kn: 0.514444 },
+  data: { B: 1, KB: 1e3, MB: 1e6, GB: 1e9, TB: 1e12, KiB: 1024, MiB: 1024 ** 2, GiB: 1024 ** 3, TiB: 1024 ** 4 },
+  area: { m2: 1, km2: 1e6, cm2: 1e-4, ha: 1e4, acre: 4046.8564224, ft2: 0.09290304, in2: 0.00064516, mi2: 2589988.110336 },
+};
+const TEMPERATURE_UNITS = ['C', 'F', 'K'];
+
+const toKelvin = (value: number, unit: string) => unit === 'C' ? value + 273.15 : unit === 'F' ? (value - 32) * 5 / 9 + 273.15 : value;
+const fromKelvin = (value: number, unit: string) => unit === 'C' ? value - 273.15 : unit === 'F' ? (value - 273.15) * 9 / 5 + 32 : value;
+
+export const convertUnits = (value: number, from: string, to: string): number => {
+  if (TEMPERATURE_UNITS.includes(from) && TEMPERATURE_UNITS.includes(to)) return fromKelvin(toKelvin(value, from), to);
+  const group = Object.values(UNIT_GROUPS).find(units => from in units && to in units);
+  if (!group) throw new Error(`Can't convert from "${from}" to "${to}".`);
+  return value * group[from] / group[to];
+};
+
+const unitConversion: LocalTool = {
+  label: 'Unit conversion',
+  declaration: {
+    name: 'convert_units',
+    description: `Converts a value between units of the same kind. Units: ${[...Object.values(UNIT_GROUPS).flatMap(Object.keys), ...TEMPERATURE_UNITS].join(', ')} (C, F and K are temperatures).`,
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        value: { type: Type.NUMBER },
+        from: { type: Type.STRING, description: 'Unit to convert from, exactly as listed.' },
+        to: { type: Type.STRING, description: 'Unit to convert to, exactly as listed.' },
+      },
+      required: ['value', 'from', 'to'],
+    },
+  },
+  run: ({ value, from, to }) => ({ value, from, to, result: convertUnits(Number(value), String(from), String(to)) }),
+};
+
+// --- Conversation search ---
+
+const MAX_SEARCH_RESULTS = 8;
+
+const conversationSearch: LocalTool = {
+  label: 'Search conversations',
+  declaration: {
+    name: 'search_conversations',
+    description: "Searches the user's other saved conversations with you for a word or phrase. Use it when the user refers to something discussed in an earlier chat.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        query: { type: Type.STRING, description: 'A short word or phrase; matching is exact and case-insensitive.' },
+      },
+      required: ['query'],
+    },
+  },
+  run: ({ query }, { conversations }) =>
+    searchConversations(conversations, String(query), MAX_SEARCH_RESULTS).map(result => ({
+      conversation: result.conversationTitle,
+      excerpt: `${result.snippet.before}${result.snippet.match}${result.snippet.after}`,
+    })),
+};
+
+const LOCAL_TOOLS: LocalTool[] = [calculator, dateTime, unitConversion, conversationSearch];
+
+export const getToolLabel = (name: string): string =>
+  LOCAL_TOOLS.find(tool => tool.declaration.name === name)?.label ?? name;
+
+export const createToolRunner = (context: ToolContext): ToolRunner => ({
+  declarations: LOCAL_TOOLS.map(tool => tool.declaration),
+  run: async (name, args) => {
+    const call: ToolCall = { id: crypto.randomUUID(), name, args };
+    const tool = LOCAL_TOOLS.find(candidate => candidate.declaration.name === name);
+    if (!tool) return { ...call, error: `There is no tool called "${name}".` };
+    try {
+      return { ...call, result: await tool.run(args, context) };
+    } catch (error: any) {
+      // The error goes back to the model, which can usually correct its arguments and retry.
+      return { ...call, error: error.message || String(error) };
+    }
+  },
+});
@@ -0,0 +1,70 @@
+import type { TranscriptSegment } from '../types';
+
+// Timestamp parsing and the subtitle formats a transcript can be exported to.
+
+// Reads "75", "1:15", "01:15.5" or "0:01:15,5" as seconds. Unreadable values count as 0.
+export const parseTimestamp = (value: unknown): number => {
+  if (typeof value === 'number') return isFinite(value) && value > 0 ? value : 0;
+  const parts = String(value ?? '').trim().replace(',', '.').split(':').map(Number);
+  if (parts.length === 0 || parts.length > 3 || parts.some(isNaN)) return 0;
+  return Math.max(0, parts.reduce((total, part) => total * 60 + part, 0));
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+// "1:05" or "1:02:05", for showing next to a segment.
+export const formatClockTime = (seconds: number): string => {
+  const whole = Math.floor(seconds);
+  const hours = Math.floor(whole / 3600);
+  const minutes = Math.floor((whole % 3600) / 60);
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(whole % 60)}` : `${minutes}:${pad(whole % 60)}`;
+};
+
+// "00:01:05,250" for SRT, "00:01:05.250" for VTT.
+const formatCueTime = (seconds: number, separator: ',' | '.') => {
+  const milliseconds = Math.round(seconds * 1000);
+  const hours = Math.floor(milliseconds / 3_600_000);
+  const minutes = Math.floor((milliseconds % 3_600_000) / 60_000);
+  const secs = Math.floor((milliseconds % 60_000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(milliseconds % 1000, 3)}`;
+};
+
+const cueText = (segment: TranscriptSegment) => segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text;
+
+// A blank line ends a cue in both formats, so cue text keeps its line breaks but loses empty lines.
+const withoutBlankLines = (text: string) => text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).join('\n');
+
+// VTT cue text is markup: "<" opens a tag, "&" an entity, and "-->" would read as a timing line.
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const transcriptToSrt = (segments: TranscriptSegment[]): string =>
+  segments.map((segment, index) => [
+    index + 1,
+    `${formatCueTime(segment.start, ',')} --> ${formatCueTime(segment.end, ',')}`,
+    withoutBlankLines(cueText(segment)),
+  ].join('\n')).join('\n\n') + '\n';
+
+export const transcriptToVtt = (segments: TranscriptSegment[]): string =>
+  'WEBVTT\n\n' + segments.map(segment => {
+    const text = escapeVtt(withoutBlankLines(segment.text));
+    return [
+      `${formatCueTime(segment.start, '.')} --> ${formatCueTime(segment.end, '.')}`,
+      segment.speaker ? `<v ${escapeVtt(segment.speaker.replace(/\s+/g, ' ').trim())}>${text}` : text,
+    ].join('\n');
+  }).join('\n\n') + '\n';
+
+// Plain text, one paragraph per run of the same speaker. Also what the reply's text holds, so
+// history, search and exports see the transcript without knowing about segments.
+export const transcriptToText = (segments: TranscriptSegment[]): string => {
+  const paragraphs: string[] = [];
+  let previousSpeaker: string | undefined;
+  for (const segment of segments) {
+    if (paragraphs.length > 0 && segment.speaker === previousSpeaker) {
+      paragraphs[paragraphs.length - 1] += ` ${segment.text}`;
+    } else {
+      paragraphs.push(cueText(segment));
+    }
+    previousSpeaker = segment.speaker;
+  }
+  return paragraphs.join('\n\n');
+};
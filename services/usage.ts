@@ -0,0 +1,106 @@
+import type { Conversation, Message, UsageRecord } from '../types';
+import { ModelId } from '../types';
+
+// Prices are in US dollars. Thinking tokens are billed as output tokens.
+export interface ModelPrice {
+  inputPerMillionTokens?: number;
+  outputPerMillionTokens?: number;
+  perImage?: number;
+  perVideoSecond?: number;
+  perMillionCharacters?: number;
+}
+
+// Keyed by model id. A key also matches longer model names that start with it, so
+// "gemini-2.5-flash" covers versioned names such as "gemini-2.5-flash-001".
+export type PriceTable = Record<string, ModelPrice>;
+
+// Published list prices at the time of writing; they change, so the dashboard lets users edit them.
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  [ModelId.GEMINI_FLASH]: { inputPerMillionTokens: 0.3, outputPerMillionTokens: 2.5 },
+  [ModelId.GEMINI_PRO]: { inputPerMillionTokens: 1.25, outputPerMillionTokens: 10 },
+  [ModelId.GEMINI_FLASH_LITE]: { inputPerMillionTokens: 0.1, outputPerMillionTokens: 0.4 },
+  [ModelId.GEMINI_FLASH_IMAGE]: { perImage: 0.039 },
+  [ModelId.IMAGEN]: { perImage: 0.04 },
+  [ModelId.GEMINI_PRO_IMAGE]: { perImage: 0.134 }, // at 2K, the size used for upscaling
+  [ModelId.VEO]: { perVideoSecond: 0.15 },
+  [ModelId.TTS]: { perMillionCharacters: 15 },
+};
+
+export interface UsageTotals {
+  promptTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  images: number;
+  videoSeconds: number;
+  ttsCharacters: number;
+  cost: number;
+  unpricedModels: string[]; // models with usage but no price, so `cost` leaves them out
+}
+
+const emptyTotals = (): UsageTotals => ({
+  promptTokens: 0, outputTokens: 0, thinkingTokens: 0, images: 0, videoSeconds: 0, ttsCharacters: 0, cost: 0, unpricedModels: [],
+});
+
+// Every usage record in `messages`, including replies in inactive branches: those were paid for too.
+export const collectUsage = (messages: Message[]): UsageRecord[] =>
+  messages.flatMap(message => [
+    ...(message.usage || []),
+    ...(message.branches || []).flatMap(branch => collectUsage(branch.messages)),
+  ]);
+
+// Combines the usage of several calls to the same model, e.g. the rounds of a tool-calling loop.
+export const addUsage = (a: UsageRecord | undefined, b: UsageRecord): UsageRecord => a ? {
+  model: b.model,
+  promptTokens: (a.promptTokens || 0) + (b.promptTokens || 0),
+  outputTokens: (a.outputTokens || 0) + (b.outputTokens || 0),
+  thinkingTokens: (a.thinkingTokens || 0) + (b.thinkingTokens || 0),
+} : b;
+
+export const findPrice = (model: string, prices: PriceTable): ModelPrice | undefined => {
+  if (prices[model]) return prices[model];
+  const key = Object.keys(prices)
+    .filter(candidate => model.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? prices[key] : undefined;
+};
+
+export const recordCost = (record: UsageRecord, price: ModelPrice): number =>
+  ((record.promptTokens || 0) * (price.inputPerMillionTokens || 0) +
+    ((record.outputTokens || 0) + (record.thinkingTokens || 0)) * (price.outputPerMillionTokens || 0) +
+    (record.ttsCharacters || 0) * (price.perMillionCharacters || 0)) / 1_000_000 +
+  (record.images || 0) * (price.perImage || 0) +
+  (record.videoSeconds || 0) * (price.perVideoSecond || 0);
+
+export const summarizeUsage = (records: UsageRecord[], prices: PriceTable): UsageTotals =>
+  records.reduce((totals, record) => {
+    const price = findPrice(record.model, prices);
+    if (price) {
+      totals.cost += recordCost(record, price);
+    } else if (!totals.unpricedModels.includes(record.model)) {
+      totals.unpricedModels.push(record.model);
+    }
+    totals.promptTokens += record.promptTokens || 0;
+    totals.outputTokens += record.outputTokens || 0;
+    totals.thinkingTokens += record.thinkingTokens || 0;
+    totals.images += record.images || 0;
+    totals.videoSeconds += record.videoSeconds || 0;
+    totals.ttsCharacters += record.ttsCharacters || 0;
+    return totals;
+  }, emptyTotals());
+
+export const summarizeByModel = (records: UsageRecord[], prices: PriceTable): { model: string; totals: UsageTotals }[] => {
+  const byModel = new Map<string, UsageRecord[]>();
+  records.forEach(record => byModel.set(record.model, [...(byModel.get(record.model) || []), record]));
+  return [...byModel.entries()]
+    .map(([model, modelRecords]) => ({ model, totals: summarizeUsage(modelRecords, prices) }))
+    .sort((a, b) => b.totals.cost - a.totals.cost);
+};
+
+export const summarizeConversation = (conversation: Conversation, prices: PriceTable): UsageTotals =>
+  summarizeUsage(collectUsage(conversation.messages), prices);
+
+export const formatCost = (cost: number): string =>
+  cost === 0 ? '$0.00' : cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+
+export const totalTokens = (totals: Pick<UsageTotals, 'promptTokens' | 'outputTokens' | 'thinkingTokens'>): number =>
+  totals.promptTokens + totals.outputTokens + totals.thinkingTokens;
@@ -15,22 +15,113 @@ export interface Message {
   image?: string; // base64 image from user upload
   video?: string; // data URL for video from user upload
   audioSrc?: string; // data URL for audio from user recording
-  generatedImage?: string; // URL of AI-generated image
+  attachments?: Attachment[]; // files attached to a chat message: images, PDFs and text documents
+  generatedImage?: string; // URL of AI-generated image; the selected one when there are several
+  generatedImages?: string[]; // every image of an image-gen result, shown as a selectable grid
+  imageSettings?: ImageGenSettings; // settings an image-gen request was sent with, reused when regenerating
+  editHistory?: ImageEditStep[]; // steps of an image editor session; generatedImage is the one shown
   generatedVideo?: string; // URL of AI-generated video
-  generatedCode?: string; // AI-generated code string
+  generatedCode?: string; // AI-generated code string; older Canvas replies hold a single HTML document here
+  codeFiles?: CodeFile[]; // one version of a Canvas project (see services/canvas.ts)
+  transcript?: TranscriptSegment[]; // timed segments of a transcription reply; `text` holds the same words
   groundingChunks?: GroundingChunk[];
   error?: string;
+  truncated?: boolean; // generation was stopped by the user before it finished
+  tool?: ChatTool; // tool a user message was sent with, used when regenerating its reply
+  branches?: MessageBranch[]; // inactive alternative versions of the thread from this message on
+  branchIndex?: number; // position of the active version among all versions at this point
+  usage?: UsageRecord[]; // one entry per billable call made for this message
+  toolCalls?: ToolCall[]; // local function calls the model made while writing this reply
+}
+
+// A file attached to a user message (see services/attachments.ts).
+export interface Attachment {
+  name: string;
+  mimeType: string; // from the extension for text formats, which browsers often leave untyped
+  size: number; // bytes
+  src: string; // data URL until saved, then an asset reference like the other media fields
+}
+
+// One call the model made to a local tool (see services/tools.ts) and what it got back.
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+  result?: unknown; // unset when the call failed
+  error?: string;
+}
+
+// What one model call consumed. Token counts come from the API's usageMetadata; the per-call
+// units cover models that are billed by output instead of tokens.
+export interface UsageRecord {
+  model: string;
+  promptTokens?: number;
+  outputTokens?: number;
+  thinkingTokens?: number;
+  images?: number;
+  videoSeconds?: number;
+  ttsCharacters?: number;
+}
+
+// An alternative continuation of a conversation, starting at the message that owns it.
+export interface MessageBranch {
+  messages: Message[];
 }
 
 export interface Conversation {
   id: string;
   title: string;
+  summary?: string; // one-line AI summary of the conversation
   messages: Message[];
   model: ModelId;
+  pinned?: boolean;
+  archived?: boolean;
+  deletedAt?: Date; // set while the conversation sits in the trash, before permanent deletion
+  systemInstruction?: string; // sent with every chat request in this conversation
+  persona?: PersonaSummary; // the persona the conversation was started with
+  defaultTool?: ChatTool; // tool selected when the conversation is opened
+  contextSummary?: ContextSummary; // stands in for older turns once the chat outgrows the context budget
+  previewCapabilities?: PreviewCapabilities; // what the conversation's Canvas previews may do
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+// A rolling summary of the earliest turns of a conversation. Chat requests send it instead of
+// those turns; every message after `throughMessageId` is still sent in full.
+export interface ContextSummary {
+  text: string;
+  throughMessageId: string;
+}
+
+// A reusable assistant setup, saved per user and picked when starting a new chat.
+export interface Persona {
+  id: string;
+  name: string;
+  avatar: string; // an emoji
+  instructions: string;
+  model: ModelId;
+  defaultTool: ChatTool;
+  useSearch: boolean;
+  useThinkingMode: boolean;
+  voice?: string; // text-to-speech voice; unset uses the user's
+  createdAt?: Date;
+}
+
+export type PersonaSummary = Pick<Persona, 'id' | 'name' | 'avatar'>;
+
+// A Veo generation that outlives the chat that started it. Running jobs are saved per user
+// and polled again after a reload.
+export interface VideoJob {
+  id: string;
+  conversationId: string;
+  messageId: string; // the "Generating video..." reply the result replaces
+  prompt: string;
+  operationName: string; // the Veo long-running operation to poll
+  createdAt: number; // ms since epoch; elapsed time counts from here
+  status: 'running' | 'done' | 'failed';
+  error?: string;
+}
+
 export enum ModelId {
   GEMINI_FLASH = 'gemini-2.5-flash',
   GEMINI_FLASH_LITE = 'gemini-flash-lite-latest',
@@ -38,18 +129,24 @@ export enum ModelId {
   IMAGEN = 'imagen-4.0-generate-001',
   VEO = 'veo-3.1-fast-generate-preview',
   GEMINI_FLASH_IMAGE = 'gemini-2.5-flash-image',
+  GEMINI_PRO_IMAGE = 'gemini-3-pro-image-preview', // used to upscale generated images
   TTS = 'gemini-2.5-flash-preview-tts',
   LIVE = 'gemini-2.5-flash-native-audio-preview-09-2025',
+  // Served by the OpenAI-compatible provider; the real model name comes from OPENAI_CHAT_MODEL.
+  OPENAI_COMPATIBLE = 'openai-compatible',
 }
 
+export type ProviderId = 'gemini' | 'openai-compatible';
+
 export interface Model {
   id: ModelId;
   name: string;
   description: string;
   speed: 'Fast' | 'Medium' | 'Slow';
+  provider: ProviderId;
 }
 
-export type ViewId = 'chat' | 'live-convo';
+export type ViewId = 'chat' | 'live-convo' | 'usage';
 
 export type ChatTool = 'chat' | 'image-gen' | 'image-edit' | 'video-gen' | 'video-analysis' | 'audio-transcription' | 'canvas';
 
@@ -62,6 +159,46 @@ export interface Tool {
 
 export type AspectRatio = "1:1" | "16:9" | "9:16" | "4:3" | "3:4";
 
+// One version of an image in the editor. The first step is the image editing started from.
+export interface ImageEditStep {
+  image: string;
+  prompt: string; // empty for the first step
+  from?: number; // index of the step this edit was applied to
+  masked?: boolean; // the edit was limited to a painted region
+}
+
+// What a Canvas preview may do beyond running its own scripts. Everything is off unless the user
+// turns it on for the project.
+export interface PreviewCapabilities {
+  forms: boolean; // submitting forms
+  modals: boolean; // alert(), confirm() and prompt()
+  network: boolean; // fetch and loading images, styles and scripts from https: URLs
+}
+
+// A stretch of a transcribed recording, with times in seconds from its start.
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  speaker?: string; // e.g. "Speaker 1", or a name the recording gives
+  text: string;
+}
+
+// One file of a Canvas project, e.g. index.html, style.css or script.js.
+export interface CodeFile {
+  name: string;
+  content: string;
+}
+
+export type ImageFormat = 'image/jpeg' | 'image/png';
+
+// Options from the image-gen composer panel.
+export interface ImageGenSettings {
+  aspectRatio: AspectRatio;
+  count: number; // 1-4
+  format: ImageFormat;
+  negativePrompt?: string; // what to keep out of the image; sent as part of the prompt
+}
+
 export interface StreamChunk extends GenerateContentResponse {
   // The SDK's GenerateContentResponse is used directly for streaming chunks.
 }
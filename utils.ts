@@ -21,6 +21,44 @@ export const fileToDataUrl = (file: File): Promise<string> => {
   });
 }
 
+// Splits a "data:<mime>;base64,<data>" URL into its parts. Returns null for any other URL.
+export const parseDataUrl = (url: string): { mimeType: string; data: string } | null => {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+  if (!match) return null;
+  return { mimeType: match[1], data: match[2] };
+};
+
+// Resolves a data: or blob: URL into base64 inline data.
+export const urlToInlineData = async (url: string): Promise<{ mimeType: string; data: string } | null> => {
+  const parsed = parseDataUrl(url);
+  if (parsed) return parsed;
+  if (!url.startsWith('blob:')) return null;
+  const response = await fetch(url);
+  if (!response.ok) return null;
+  const blob = await response.blob();
+  const dataUrl = await fileToDataUrl(new File([blob], 'media', { type: blob.type }));
+  return parseDataUrl(dataUrl);
+};
+
+// Resolves after `ms`, or rejects with an AbortError as soon as `signal` is aborted.
+export const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
 
 // --- Audio Utils for Live API ---
 
@@ -64,3 +102,252 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+// Converts Float32 microphone samples into a 16-bit PCM blob for the Live API.
+export function createPcmBlob(data: Float32Array, sampleRate = 16000): { data: string; mimeType: string } {
+  const int16 = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    const s = Math.max(-1, Math.min(1, data[i]));
+    int16[i] = s < 0 ? s * 32768 : s * 32767;
+  }
+  return {
+    data: encode(new Uint8Array(int16.buffer)),
+    mimeType: `audio/pcm;rate=${sampleRate}`,
+  };
+}
+
+// Wraps raw little-endian 16-bit PCM in a 44-byte RIFF header so it can be played or saved as a WAV file.
+export function pcmToWav(pcm: Uint8Array, sampleRate: number, numChannels: number): Blob {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeAscii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+  };
+  const blockAlign = numChannels * 2;
+  writeAscii(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.byteLength, true);
+  writeAscii(8, 'WAVE');
+  writeAscii(12, 'fmt ');
+  header.setUint32(16, 16, true); // fmt chunk size
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, numChannels, true);
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * blockAlign, true); // byte rate
+  header.setUint16(32, blockAlign, true);
+  header.setUint16(34, 16, true); // bits per sample
+  writeAscii(36, 'data');
+  header.setUint32(40, pcm.byteLength, true);
+  return new Blob([header, pcm], { type: 'audio/wav' });
+}
+
+
+// --- Conversation Search Utils ---
+
+export interface SearchSnippet {
+  before: string;
+  match: string;
+  after: string;
+}
+
+export interface ConversationSearchResult {
+  conversationId: string;
+  conversationTitle: string;
+  messageId?: string; // undefined when the conversation title matched
+  source: 'title' | 'message' | 'code';
+  snippet: SearchSnippet;
+}
+
+const SNIPPET_CONTEXT_CHARS = 40;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Finds `query` in `text` (case-insensitively) and returns the match with surrounding context.
+// Matches on `text` itself rather than a lowercased copy, whose indices can differ (e.g. "İ"
+// lowercases to two characters).
+const buildSnippet = (text: string, query: string): SearchSnippet | null => {
+  const found = new RegExp(escapeRegExp(query), 'iu').exec(text);
+  if (!found) return null;
+  const index = found.index;
+  const matchEnd = index + found[0].length;
+  const start = Math.max(0, index - SNIPPET_CONTEXT_CHARS);
+  const end = Math.min(text.length, matchEnd + SNIPPET_CONTEXT_CHARS);
+  const collapse = (value: string) => value.replace(/\s+/g, ' ');
+  return {
+    before: (start > 0 ? '…' : '') + collapse(text.slice(start, index)),
+    match: found[0],
+    after: collapse(text.slice(matchEnd, end)) + (end < text.length ? '…' : ''),
+  };
+};
+
+// Searches conversation titles, message text (including transcriptions) and generated code.
+export const searchConversations = (
+  conversations: { id: string; title: string; messages: { id: string; text: string; generatedCode?: string; codeFiles?: { content: string }[] }[] }[],
+  query: string,
+  maxResults = 50,
+): ConversationSearchResult[] => {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+  const results: ConversationSearchResult[] = [];
+
+  for (const conv of conversations) {
+    const titleSnippet = buildSnippet(conv.title, trimmed);
+    if (titleSnippet) {
+      results.push({ conversationId: conv.id, conversationTitle: conv.title, source: 'title', snippet: titleSnippet });
+    }
+    for (const msg of conv.messages) {
+      const textSnippet = buildSnippet(msg.text || '', trimmed);
+      if (textSnippet) {
+        results.push({ conversationId: conv.id, conversationTitle: conv.title, messageId: msg.id, source: 'message', snippet: textSnippet });
+      } else if (msg.generatedCode || msg.codeFiles) {
+        const code = msg.codeFiles ? msg.codeFiles.map(file => file.content).join('\n') : msg.generatedCode!;
+        const codeSnippet = buildSnippet(code, trimmed);
+        if (codeSnippet) {
+          results.push({ conversationId: conv.id, conversationTitle: conv.title, messageId: msg.id, source: 'code', snippet: codeSnippet });
+        }
+      }
+      if (results.length >= maxResults) return results;
+    }
+  }
+  return results;
+};
+
+
+// --- Message Branching Utils ---
+// The active path of a conversation is a flat Message[]. Where the thread has been forked by an
+// edit or a regeneration, the message at the fork point keeps the inactive versions of the rest
+// of the thread in `branches`, and `branchIndex` records where the active version sits among them.
+
+type BranchableMessage = {
+  branches?: { messages: BranchableMessage[] }[];
+  branchIndex?: number;
+};
+
+const stripBranchInfo = <T extends BranchableMessage>(message: T): T => {
+  const { branches, branchIndex, ...rest } = message;
+  return rest as T;
+};
+
+// Returns every version of the thread from `index` on, in display order.
+export const getBranchVersions = <T extends BranchableMessage>(messages: T[], index: number): T[][] => {
+  const forkMessage = messages[index];
+  const activeTail = [stripBranchInfo(forkMessage), ...messages.slice(index + 1)];
+  const versions = (forkMessage.branches || []).map(branch => branch.messages as T[]);
+  versions.splice(Math.min(forkMessage.branchIndex ?? versions.length, versions.length), 0, activeTail);
+  return versions;
+};
+
+const activateVersion = <T extends BranchableMessage>(messages: T[], index: number, versions: T[][], versionIndex: number): T[] => {
+  const tail = versions[versionIndex];
+  const inactive = versions.filter((_, i) => i !== versionIndex).map(v => ({ messages: v }));
+  const forkMessage = { ...tail[0], branches: inactive, branchIndex: versionIndex } as T;
+  return [...messages.slice(0, index), forkMessage, ...tail.slice(1)];
+};
+
+// Makes another existing version of the thread at `index` the active one.
+export const switchBranch = <T extends BranchableMessage>(messages: T[], index: number, versionIndex: number): T[] => {
+  const versions = getBranchVersions(messages, index);
+  if (versionIndex < 0 || versionIndex >= versions.length) return messages;
+  return activateVersion(messages, index, versions, versionIndex);
+};
+
+// Replaces the thread from `index` on with `newTail`, keeping the current thread as a branch.
+export const forkAt = <T extends BranchableMessage>(messages: T[], index: number, newTail: T[]): T[] => {
+  if (index >= messages.length) return [...messages, ...newTail];
+  const versions = [...getBranchVersions(messages, index), newTail];
+  return activateVersion(messages, index, versions, versions.length - 1);
+};
+
+// Converts a data: or blob: URL back into a File so it can be re-sent to the model.
+export const urlToFile = async (url: string, name: string): Promise<File> => {
+  const response = await fetch(url);
+  const blob = await response.blob();
+  return new File([blob], name, { type: blob.type });
+};
+
+// Saves `content` as a file through the browser's download prompt.
+export const downloadFile = (content: string | Blob, fileName: string, mimeType: string) => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Length of an audio or video file in seconds, or `fallback` if the browser can't read it.
+export const getMediaDuration = (url: string, fallback: number): Promise<number> =>
+  new Promise(resolve => {
+    const media = document.createElement('video');
+    media.preload = 'metadata';
+    media.onloadedmetadata = () => resolve(isFinite(media.duration) ? media.duration : fallback);
+    media.onerror = () => resolve(fallback);
+    media.src = url;
+  });
+
+// --- ZIP ---
+// A minimal writer for uncompressed ("stored") ZIP archives, enough to download a few text files.
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const createZip = (files: { name: string; content: string }[]): Blob => {
+  const encoder = new TextEncoder();
+  const now = new Date();
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | (now.getSeconds() >> 1);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  const entries: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // names are UTF-8
+    local.setUint16(10, dosTime, true);
+    local.setUint16(12, dosDate, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    entries.push(new Uint8Array(local.buffer), name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(12, dosTime, true);
+    central.setUint16(14, dosDate, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    directory.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+  return new Blob([...entries, ...directory, new Uint8Array(end.buffer)], { type: 'application/zip' });
+};
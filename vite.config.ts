@@ -12,7 +12,15 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.OPENAI_BASE_URL': JSON.stringify(env.OPENAI_BASE_URL),
+        'process.env.OPENAI_API_KEY': JSON.stringify(env.OPENAI_API_KEY),
+        'process.env.OPENAI_CHAT_MODEL': JSON.stringify(env.OPENAI_CHAT_MODEL),
+        'process.env.OPENAI_IMAGE_MODEL': JSON.stringify(env.OPENAI_IMAGE_MODEL),
+        'process.env.OPENAI_TRANSCRIPTION_MODEL': JSON.stringify(env.OPENAI_TRANSCRIPTION_MODEL),
+        'process.env.OPENAI_TTS_MODEL': JSON.stringify(env.OPENAI_TTS_MODEL),
+        'process.env.OPENAI_TTS_VOICE': JSON.stringify(env.OPENAI_TTS_VOICE),
+        'process.env.FIREBASE_STORAGE_EMULATOR_HOST': JSON.stringify(env.FIREBASE_STORAGE_EMULATOR_HOST)
       },
       resolve: {
         alias: {